@@ -3,16 +3,36 @@
  * This contains the ApiRefResolver and support types/interfaces
  */
 import { strict as assert } from 'assert';
-import * as fs from 'fs';
 import * as path from 'path';
-import { fileURLToPath, pathToFileURL, URL } from 'url';
-
-import * as bl from 'bl';
-import * as yaml from 'js-yaml';
+import { pathToFileURL, URL } from 'url';
 
+import { namespaceFromUrl } from './ComponentConflict';
+import type { ComponentConflict, ComponentRenamer, RenameContext } from './ComponentConflict';
+import { sortComponents } from './ComponentOrder';
+import { dereference } from './Dereferencer';
+import { DiagnosticError, hasErrors, ResolutionError } from './Diagnostics';
+import type { Diagnostic } from './Diagnostics';
+import type { CachedDocument, DocumentCache } from './DocumentCache';
+import { asLoadedDocument, loaderFor } from './DocumentLoader';
+import type { DocumentLoaders, LoadedDocument } from './DocumentLoader';
+import { documentFormatFor, parseDocument } from './DocumentParser';
+import type { DocumentFormat } from './DocumentParser';
+import { equivalent } from './Equivalence';
+import { componentNameFor, inferComponentSection } from './Hoisting';
 import { JsonNavigation, JsonKey, JsonItem } from './JsonNavigation';
+import { defaultMarkerPlacement, stripMarkers } from './Markers';
+import type { MarkerContext, MarkerOptions } from './Markers';
+import { ReferenceGraph } from './ReferenceGraph';
 import { walkObject, visitRefObjects, RefVisitor, isRef } from './RefVisitor';
 import type { Node, RefObject } from './RefVisitor';
+import { baseUrlAt, isPointerFragment, SchemaIndex, walkWithBase } from './SchemaIndex';
+import type { SchemaLocation } from './SchemaIndex';
+import { SourceTracker } from './SourceMap';
+import type { SourceMap } from './SourceMap';
+import { serialize } from './Serializer';
+import type { OutputFormat } from './Serializer';
+import { removeUnusedComponents } from './TreeShaker';
+import type { DumpOptions } from './YamlOutput';
 
 import * as v8 from 'v8';
 
@@ -32,6 +52,8 @@ interface ComponentLocation {
   section: { [sectionName: string]: ApiObject };
   sectionName: string;
   componentName: string;
+  /** If true, the existing component is equivalent and is used instead of adding a new one */
+  reuse?: boolean;
 }
 
 /**
@@ -52,26 +74,227 @@ export interface ApiRefOptions {
   /** If true, log more info to console.warn */
   verbose?: boolean;
 
-  /** If true, do not inject x-resolved-from and x-resolved-at markers */
+  /** If true, do not inject x-resolved-from and x-resolved-at markers (or any other `markers`) */
   noMarkers?: boolean;
 
+  /**
+   * The names of the markers, which markers to add, additional provenance markers,
+   * and which elements get markers
+   */
+  markers?: MarkerOptions;
+
+  /**
+   * If true, resolve an API document which already has a `resolvedFrom` marker
+   * (that is, which was already resolved) after removing its markers.
+   * Otherwise, such a document is returned unchanged.
+   */
+  force?: boolean;
+
   /**
    * What to do id two different resolutions define the same component,
    * either rename the second one by adding a unique integer suffix, or
    * throw an error. The default is `rename`. The result includes a list
-   * of renamed components.
+   * of renamed components in `ApiRefResolution.conflicts`.
+   * With `dedupe`, a component which is structurally identical to the
+   * existing one (ignoring resolver markers) is replaced by a reference to the
+   * existing component; otherwise the `dedupeFallback` strategy applies.
+   */
+  conflictStrategy?: 'error' | 'rename' | 'ignore' | 'dedupe';
+
+  /**
+   * The strategy for conflicting components which are not identical,
+   * when `conflictStrategy` is `dedupe`. The default is `rename`.
+   */
+  dedupeFallback?: 'error' | 'rename';
+
+  /**
+   * How to rename a conflicting component with the `rename` strategy:
+   * - `suffix` (the default) adds a unique integer suffix: `health1`, `health2`, ...
+   * - `namespace` prefixes the name with the `namespaces` alias of the source document
+   *   or, if it has none, the PascalCase file name of the source document: `CommonHealth`
+   * - a function which returns the new name
+   */
+  renamePolicy?: 'suffix' | 'namespace' | ComponentRenamer;
+
+  /**
+   * Namespace aliases for the `namespace` rename policy, keyed by document path or URL
+   * relative to the root API document, such as `{ "common/problems.yaml": "Common" }`.
+   */
+  namespaces?: { [path: string]: string };
+
+  /**
+   * The format of `ApiRefResolution.serialize()`. The default is `json` if
+   * `outputPath` ends with `.json`, else `yaml`.
+   */
+  outputFormat?: OutputFormat;
+
+  /**
+   * If true, `ApiRefResolution.serialize()` writes JSON on one line rather than indented
+   */
+  compactJson?: boolean;
+
+  /**
+   * Additional document loaders, keyed by URL scheme (such as `mem` or `git`).
+   * These are used in addition to the built-in `file`, `http` and `https`
+   * loaders, and may also replace them.
+   */
+  loaders?: DocumentLoaders;
+
+  /**
+   * Additional HTTP request headers, such as `authorization`, used when reading
+   * `http:` and `https:` documents. The headers are not sent to other hosts
+   * if the server redirects the request.
+   */
+  requestHeaders?: { [name: string]: string };
+
+  /**
+   * Timeout in milliseconds for reading a remote document, including any redirects,
+   * even if the server is still sending data; the default is 30 seconds.
+   */
+  timeout?: number;
+
+  /**
+   * Directory for a persistent cache of remote (`http:`/`https:`) documents.
+   * If omitted, remote documents are not cached between runs.
+   */
+  cacheDir?: string;
+
+  /**
+   * If true, do not access the network; read remote documents only
+   * from the `cacheDir` cache, and fail if a document is not cached.
+   */
+  offline?: boolean;
+
+  /**
+   * If true, build a source map which records where each element
+   * of the resolved document came from. Elements from JSON5 documents
+   * have no line and column, since the JSON5 parser does not report them.
+   */
+  sourceMap?: boolean;
+
+  /**
+   * The severity of diagnostics for dangling references: `$ref` objects
+   * whose document cannot be read or whose JSON Pointer does not exist,
+   * including local `#/...` references in the resolved document.
+   * `error` causes `resolve()` to fail. By default, references which cannot be read
+   * (`load-error` and `invalid-pointer`) are errors, and `dangling-ref` diagnostics
+   * for references which were resolved but do not refer to anything are warnings.
    */
-  conflictStrategy?: 'error' | 'rename' | 'ignore';
+  danglingRefs?: 'error' | 'warning';
 
   /**
-   * Output format for stdout; default is `yaml`
+   * A cache of parsed documents shared with other resolvers. Documents in the
+   * cache are not read again; invalidate a document after it changes.
+   * Resolvers running at the same time read each document once.
    */
-  outputFormat?: 'yaml' | 'json';
+  documentCache?: DocumentCache;
+
+  /**
+   * If true, a `$ref` to an element of another document which is not a component
+   * (such as `other.yaml#/paths/~1health/get/responses/200/content/application~1json/schema`)
+   * is replaced with a local `$ref` to a new component, instead of a copy of the element.
+   * The components section is inferred from where the `$ref` is (or where the element is), such as
+   * `schemas` for a `schema`, and the component name is generated from the element's path.
+   * Elements whose section cannot be inferred are copied as usual.
+   */
+  hoistFragments?: boolean;
+
+  /**
+   * `bundle` (the default) embeds external `$ref` objects and keeps local `#/...` references.
+   * `dereference` also replaces every local `$ref` with a copy of the element it refers to.
+   */
+  mode?: 'bundle' | 'dereference';
+
+  /**
+   * What `mode: 'dereference'` does with a recursive `$ref`, which refers to an element
+   * that contains it: `keep` (the default) leaves the `$ref` in place, and `error`
+   * reports a `recursive-ref` error.
+   */
+  recursiveRefs?: 'keep' | 'error';
+
+  /**
+   * If true, remove the components which are not referenced (directly or indirectly)
+   * from outside `components`, such as from `paths`, `webhooks`, or AsyncAPI `channels`.
+   */
+  removeUnused?: boolean;
+
+  /**
+   * The components sections which `removeUnused` always keeps, because they
+   * are referenced by name rather than by `$ref`. The default is `['securitySchemes']`.
+   */
+  keepSections?: string[];
+
+  /**
+   * The file name or URL where the resolved document will be written.
+   * `$ref` objects to other documents (such as those which could not be resolved)
+   * are made relative to this location. The default is the location of the API document.
+   */
+  outputPath?: string;
+
+  /**
+   * YAML output settings, such as the line width and quoting style, for `toYaml()`
+   */
+  dumpOptions?: DumpOptions;
+
+  /**
+   * If true, keep the text of the API document in `ApiRefResolution.sourceText`, so that
+   * `toYaml()` keeps its comments, key order and scalar styles for the elements
+   * which were not replaced.
+   */
+  preserveFormatting?: boolean;
+
+  /**
+   * If true, identical inputs give identical output: the `components` sections and
+   * the components within each section are sorted by name, and the `x-resolved-at`
+   * marker is from `resolvedAt` or the `SOURCE_DATE_EPOCH` environment variable,
+   * or is omitted if neither is set.
+   */
+  reproducible?: boolean;
+
+  /**
+   * The date-time for the `x-resolved-at` marker, as a `Date` or a string such as
+   * `2022-03-11T16:27:59Z`. The default is the current time (see `reproducible`).
+   */
+  resolvedAt?: string | Date;
 }
 
 export interface ApiRefResolution {
   api: ApiObject;
   options: ApiRefOptions;
+  /**
+   * Maps the JSON Pointer of each element in `api` to the source document URL,
+   * the JSON Pointer in that document, and the line and column.
+   * Only present if `options.sourceMap` is true.
+   */
+  sourceMap?: SourceMap;
+  /**
+   * Problems found while resolving. If any are errors, `resolve()` rejects
+   * with a `ResolutionError` instead.
+   */
+  diagnostics: Diagnostic[];
+  /**
+   * Components that had the same name as an existing component,
+   * and how the `conflictStrategy` handled them.
+   */
+  conflicts: ComponentConflict[];
+  /**
+   * The URLs (without fragments) of all the documents that were read,
+   * including the root document.
+   */
+  documents: string[];
+  /**
+   * The YAML text of the API document, for keeping its formatting in the output
+   * (see `toYaml()`). Only present if `options.preserveFormatting` is true
+   * and the document is YAML.
+   */
+  sourceText?: string;
+  /**
+   * Convert the resolved document to text, with the `outputFormat`, `compactJson`
+   * and `dumpOptions` options, keeping the formatting of `sourceText` if present
+   * @param format the output format, instead of the one from the options
+   * @returns the JSON or YAML text
+   */
+  serialize: (format?: OutputFormat) => string;
 }
 
 /**
@@ -110,9 +333,57 @@ export class ApiRefResolver {
   private resolvedRefToRefMap: { [path: string]: string };
 
   /**
-   * Date-time when we resolved this API
+   * Tracks where elements of the resolved document came from
    */
-  private dateTime: string;
+  private sources: SourceTracker;
+
+  /**
+   * Problems found while resolving
+   */
+  private diagnostics: Diagnostic[];
+
+  /**
+   * `$ref` objects which could not be resolved; these are not retried in later passes
+   */
+  private failedRefObjects: WeakSet<RefObject>;
+
+  /**
+   * `$ref` objects within a schema resource which refer to a schema `$id` or anchor,
+   * kept in that form because the target resource is in the resolved document
+   */
+  private schemaRefObjects: WeakSet<RefObject>;
+
+  /**
+   * The schema resources (`$id`) and anchors of the documents read so far
+   */
+  private schemaIndex: SchemaIndex;
+
+  /**
+   * Component name conflicts found while resolving
+   */
+  private conflicts: ComponentConflict[];
+
+  /**
+   * The text of the API document, if `options.preserveFormatting` is true
+   */
+  private sourceText: string | undefined;
+
+  /**
+   * The text of the API document and its format, if it was given to {@link fromText}
+   * rather than read from its URL
+   */
+  private inputText: { text: string; format?: DocumentFormat } | undefined;
+
+  /**
+   * The names of the markers added by the `provenance` callback of `options.markers`
+   */
+  private provenanceMarkers: Set<string>;
+
+  /**
+   * Date-time when we resolved this API, for the `x-resolved-at` marker;
+   * `undefined` to omit the marker. See {@link resolvedAt}
+   */
+  private dateTime: string | undefined;
 
   /**
    * Tracks whether the resolve function changed anything
@@ -126,12 +397,12 @@ export class ApiRefResolver {
   static readonly TEMPORARY_MARKER = 'x__resolved__';
   /**
    * Marker to indicate where an object was resolved from (unless options.noMarker is true)
-   * See tag()
+   * This is the default name; see `options.markers` and tag()
    */
   static readonly RESOLVED_FROM_MARKER = 'x-resolved-from';
   /**
    * Marker to indicate when an object was resolved (unless options.noMarker is true)
-   * See tag()
+   * This is the default name; see `options.markers` and tag()
    */
   static readonly RESOLVED_AT_MARKER = 'x-resolved-at';
 
@@ -144,35 +415,66 @@ export class ApiRefResolver {
   public constructor(uri: string | URL, apiDocument?: ApiObject) {
     this.resolvedRefToRefMap = {};
     this.urlToApiObjectMap = {};
-    this.dateTime = new Date().toISOString();
+    this.sources = new SourceTracker();
+    this.diagnostics = [];
+    this.failedRefObjects = new WeakSet();
+    this.schemaRefObjects = new WeakSet();
+    this.schemaIndex = new SchemaIndex();
+    this.provenanceMarkers = new Set();
+    this.conflicts = [];
     this.alreadyRewritten = { path: {}, fragment: {} };
-    if (typeof uri === 'string') {
-      if (/^\w+:/.exec(uri)) {
-        this.url = new URL(uri);
-      } else {
-        this.url = pathToFileURL(path.resolve(process.cwd(), uri));
-      }
-    } else {
-      this.url = uri;
-    }
+    this.options = {};
+    this.url = ApiRefResolver.toUrl(uri);
 
     if (apiDocument) {
       this.apiDocument = apiDocument;
     }
   }
 
+  /**
+   * Build a resolver for an API document which is not read from its URL, such as one read from stdin.
+   * The text is parsed by `resolve()`, so syntax errors are reported as diagnostics.
+   * @param text the text of the API document
+   * @param uri the file name or URL that the document is treated as if it were read from;
+   * relative `$ref` URLs are resolved against it
+   * @param format the format of the text. The default is from the extension of `uri`, else YAML.
+   * @returns the resolver
+   */
+  static fromText(text: string, uri: string | URL, format?: DocumentFormat): ApiRefResolver {
+    const resolver = new ApiRefResolver(uri);
+    resolver.inputText = { text, format };
+    return resolver;
+  }
+
   async resolve(options?: ApiRefOptions): Promise<ApiRefResolution> {
     // this.urlProtocol = this.url.protocol;
     this.options = options || {};
+    this.dateTime = this.resolvedAt();
 
     if (!this.apiDocument) {
-      const apiResource = await this.api(this.url);
-      this.apiDocument = apiResource.api;
+      try {
+        const apiResource = await this.api(this.url);
+        this.apiDocument = apiResource.api;
+      } catch (ex) {
+        this.report({
+          code: ex instanceof DiagnosticError ? ex.code : 'load-error',
+          severity: 'error',
+          message: ex.message,
+          document: this.url.href,
+          targetUrl: this.url.href,
+          ...(ex instanceof DiagnosticError ? ex.details : {}),
+        });
+        throw new ResolutionError(this.diagnostics);
+      }
     }
-    if (this.apiDocument['x-resolved-from']) {
-      return { api: this.apiDocument, options: this.options };
+    if (this.options.force) {
+      stripMarkers(this.apiDocument, { markers: this.markerNames() });
+    } else if (this.apiDocument[this.resolvedFromMarker()]) {
+      return this.resolution([this.url.href]);
     }
     this.urlToApiObjectMap[this.url.href] = this.apiDocument;
+    this.schemaIndex.addDocument(this.url, this.apiDocument);
+    this.sources.add([], this.url, []);
 
     const refVisitor: RefVisitor = (node: RefObject, nav: JsonNavigation) => this.refResolvingVisitor(node, nav);
 
@@ -188,7 +490,136 @@ export class ApiRefResolver {
     }
     this.tag(this.apiDocument, this.url, undefined, true);
     this.apiDocument = await this.cleanup(this.apiDocument);
-    return { api: this.apiDocument, options: this.options };
+    if (this.options.mode === 'dereference') {
+      this.dereference();
+    }
+    if (this.options.removeUnused) {
+      removeUnusedComponents(this.apiDocument, this.options.keepSections, this.url).forEach((pointer) =>
+        this.note(`Removed unused component ${pointer}`),
+      );
+    }
+    if (this.options.reproducible) {
+      sortComponents(this.apiDocument);
+    }
+    await this.validateRefs();
+    this.relativizeUrls();
+    const resolution = this.resolution(Object.keys(this.urlToApiObjectMap));
+    if (this.options.sourceMap) {
+      resolution.sourceMap = this.sources.sourceMap(this.apiDocument, this.markerNames());
+    }
+    if (hasErrors(this.diagnostics)) {
+      throw new ResolutionError(this.diagnostics, resolution);
+    }
+    return resolution;
+  }
+
+  /**
+   * @param documents the URLs of the documents that were read
+   * @returns the result of `resolve()`, without the source map
+   */
+  private resolution(documents: string[]): ApiRefResolution {
+    const resolution: ApiRefResolution = {
+      api: this.apiDocument,
+      options: this.options,
+      diagnostics: this.diagnostics,
+      conflicts: this.conflicts,
+      documents,
+      serialize: (format?: OutputFormat) =>
+        serialize(resolution.api, {
+          format: format ?? this.options.outputFormat,
+          outputPath: this.options.outputPath,
+          compactJson: this.options.compactJson,
+          dumpOptions: this.options.dumpOptions,
+          source: resolution.sourceText,
+        }),
+    };
+    if (this.sourceText !== undefined) {
+      resolution.sourceText = this.sourceText;
+    }
+    return resolution;
+  }
+
+  /**
+   * The `x-resolved-at` date-time: `options.resolvedAt` if set, else the current time.
+   * With `options.reproducible`, the time is from the `SOURCE_DATE_EPOCH` environment variable
+   * (seconds since 1970-01-01T00:00:00Z) instead, or omitted if that is not set.
+   * @returns the ISO 8601 date-time, or `undefined` to omit the marker
+   */
+  private resolvedAt(): string | undefined {
+    const { resolvedAt, reproducible } = this.options;
+    if (resolvedAt !== undefined) {
+      const dateTime = new Date(resolvedAt);
+      if (isNaN(dateTime.getTime())) {
+        throw new Error(`Invalid resolvedAt date-time '${resolvedAt}'`);
+      }
+      return dateTime.toISOString();
+    }
+    if (!reproducible) {
+      return new Date().toISOString();
+    }
+    const epoch = process.env.SOURCE_DATE_EPOCH;
+    if (epoch === undefined || epoch === '') {
+      return undefined;
+    }
+    if (!/^\d+$/.exec(epoch)) {
+      throw new Error(`SOURCE_DATE_EPOCH must be a number of seconds, not '${epoch}'`);
+    }
+    return new Date(parseInt(epoch, 10) * 1000).toISOString();
+  }
+
+  /**
+   * Build the graph of `$ref` references between the documents and components
+   * reachable from the API document, without resolving them.
+   * Documents which cannot be read are reported in `ReferenceGraph.diagnostics`.
+   * @param options options for reading documents, such as `loaders` and `requestHeaders`
+   * @returns the reference graph
+   */
+  async graph(options?: ApiRefOptions): Promise<ReferenceGraph> {
+    this.options = options || {};
+    const graph = new ReferenceGraph();
+    if (this.apiDocument) {
+      this.urlToApiObjectMap[this.url.href] = this.apiDocument;
+    }
+    const pending: URL[] = [ApiRefResolver.urlNonFragment(this.url)];
+    const visited = new Set<string>();
+    while (pending.length > 0) {
+      const documentUrl = pending.shift();
+      if (visited.has(documentUrl.href)) {
+        continue;
+      }
+      visited.add(documentUrl.href);
+      graph.addDocument(documentUrl.href);
+      let api: ApiObject;
+      try {
+        api = (await this.api(documentUrl)).api;
+      } catch (ex) {
+        graph.diagnostics.push({
+          code: ex instanceof DiagnosticError ? ex.code : 'load-error',
+          severity: 'warning',
+          message: ex.message,
+          targetUrl: documentUrl.href,
+          ...(ex instanceof DiagnosticError ? ex.details : {}),
+        });
+        continue;
+      }
+      await visitRefObjects(api, async (refObject: RefObject, nav: JsonNavigation) => {
+        const ref = refObject.$ref;
+        const targetUrl = ref.startsWith('#')
+          ? new URL(ref, documentUrl.href)
+          : this.relativeUrl(ref, documentUrl.href);
+        const toUrl = ApiRefResolver.urlNonFragment(targetUrl);
+        graph.addSite({
+          fromUrl: documentUrl.href,
+          fromPointer: nav.asFragment().substring(1),
+          ref,
+          toUrl: toUrl.href,
+          toPointer: decodeURIComponent(targetUrl.hash.substring(1)),
+        });
+        pending.push(toUrl);
+        return refObject;
+      });
+    }
+    return graph;
   }
 
   /**
@@ -199,12 +630,9 @@ export class ApiRefResolver {
   async cleanup(resolved: ApiObject): Promise<object> {
     return (await walkObject(resolved, async (node: object) => {
       if (this.options.noMarkers) {
-        if (node.hasOwnProperty(ApiRefResolver.RESOLVED_FROM_MARKER)) {
-          delete node[ApiRefResolver.RESOLVED_FROM_MARKER];
-        }
-        if (node.hasOwnProperty(ApiRefResolver.RESOLVED_AT_MARKER)) {
-          delete node[ApiRefResolver.RESOLVED_AT_MARKER];
-        }
+        this.markerNames()
+          .filter((marker) => node.hasOwnProperty(marker))
+          .forEach((marker) => delete node[marker]);
       }
       if (node.hasOwnProperty(ApiRefResolver.TEMPORARY_MARKER)) {
         delete node[ApiRefResolver.TEMPORARY_MARKER];
@@ -213,6 +641,77 @@ export class ApiRefResolver {
     })) as object;
   }
 
+  /**
+   * Replace the absolute URLs in the resolved document with relative ones,
+   * so that it does not depend on where it was resolved:
+   * `$ref` and `$id` URLs are made relative to `options.outputPath`, and
+   * `x-resolved-from` markers are made relative to the API document.
+   * URLs with a different protocol or host than those locations are left absolute.
+   */
+  private relativizeUrls() {
+    const rootUrl = ApiRefResolver.urlNonFragment(this.url);
+    const outputUrl = this.options.outputPath
+      ? ApiRefResolver.urlNonFragment(ApiRefResolver.toUrl(this.options.outputPath))
+      : rootUrl;
+    // `sourceBase` is the base URI in the API document, and `outputBase` in the output location
+    const relativize = (node: ApiObject, sourceBase: URL, outputBase: URL) => {
+      if (Array.isArray(node)) {
+        node.forEach((item) => relativize(item, sourceBase, outputBase));
+        return;
+      }
+      if (node === null || typeof node !== 'object') {
+        return;
+      }
+      let nodeSourceBase = sourceBase;
+      let nodeOutputBase = outputBase;
+      if (typeof node['$id'] === 'string') {
+        const id = ApiRefResolver.urlNonFragment(new URL(node['$id'], sourceBase));
+        node['$id'] = ApiRefResolver.relativeHref(id, outputBase, outputUrl);
+        nodeSourceBase = id;
+        nodeOutputBase = id;
+      }
+      if (isRef(node) && !(node as RefObject).$ref.startsWith('#')) {
+        const refUrl = new URL((node as RefObject).$ref, nodeSourceBase);
+        (node as RefObject).$ref = ApiRefResolver.relativeHref(refUrl, nodeOutputBase, outputUrl);
+      }
+      const resolvedFrom = node[this.resolvedFromMarker()];
+      // markers of documents which were bundled elsewhere may already be relative
+      if (typeof resolvedFrom === 'string' && /^\w\w+:/.exec(resolvedFrom)) {
+        node[this.resolvedFromMarker()] = ApiRefResolver.relativeHref(new URL(resolvedFrom), rootUrl, rootUrl);
+      }
+      Object.keys(node).forEach((key) => relativize(node[key], nodeSourceBase, nodeOutputBase));
+    };
+    relativize(this.apiDocument, rootUrl, outputUrl);
+  }
+
+  /**
+   * Express a URL relative to a base URL, such as `../schemas/thing.yaml#/components/schemas/thing`.
+   * @param url an absolute URL
+   * @param baseUrl the URL to make it relative to
+   * @param originUrl `url` is left absolute unless it has the same protocol and host as this URL
+   * @returns the relative URL, or `url.href`
+   */
+  static relativeHref(url: URL, baseUrl: URL, originUrl: URL = baseUrl): string {
+    if (
+      url.protocol !== originUrl.protocol ||
+      url.host !== originUrl.host ||
+      url.protocol !== baseUrl.protocol ||
+      url.host !== baseUrl.host
+    ) {
+      return url.href;
+    }
+    if (url.pathname === baseUrl.pathname && url.search === baseUrl.search) {
+      return url.hash || path.posix.basename(url.pathname);
+    }
+    const baseDirectory = baseUrl.pathname.substring(0, baseUrl.pathname.lastIndexOf('/') + 1);
+    let relativePath = path.posix.relative(baseDirectory, url.pathname) || '.';
+    // a first path segment with a `:` would be read as a URL scheme
+    if (/^[^/]*:/.exec(relativePath)) {
+      relativePath = `./${relativePath}`;
+    }
+    return `${relativePath}${url.search}${url.hash}`;
+  }
+
   public static deepClone = (obj) => {
     return v8.deserialize(v8.serialize(obj)); // kinda simple way to clone, but it works...
   };
@@ -244,34 +743,6 @@ export class ApiRefResolver {
     this.resolvedRefToRefMap[reference] = ApiRefResolver.deepClone(replacementRef);
   }
 
-  /**
-   * Read an API document from a file: URL
-   * @param url the URL where the API is located
-   */
-  private async readFromFile(url: URL): Promise<string> {
-    const fileUrl = ApiRefResolver.urlNonFragment(url);
-    const filePath = fileURLToPath(fileUrl);
-    const text = fs.readFileSync(filePath, { encoding: 'utf8' });
-    return text;
-  }
-
-  private async readFromUrl(url: URL): Promise<string> {
-    return new Promise((resolve, reject) => {
-      const protocol = url.protocol === 'http' ? require('http') : require('https');
-      protocol.get(url, (response) => {
-        response.setEncoding('utf8');
-        response.pipe(
-          bl((err, data) => {
-            if (err) {
-              reject(err);
-            }
-            resolve(data.toString());
-          }),
-        );
-      });
-    });
-  }
-
   /**
    * Read an API document
    * @param uri The string or URL of then API document to read
@@ -279,7 +750,7 @@ export class ApiRefResolver {
    * at the fragment from the API document
    */
   public async api(uri: string | URL): Promise<ApiResource> {
-    const url = typeof uri === 'string' ? pathToFileURL(uri) : uri;
+    const url = ApiRefResolver.toUrl(uri);
     const urlKey = ApiRefResolver.urlNonFragment(url);
     const fragment = ApiRefResolver.urlFragment(url);
     const itemPath = fragment ? JsonNavigation.asKeys(fragment) : undefined;
@@ -292,10 +763,20 @@ export class ApiRefResolver {
         itemPath,
       };
     }
-    const text = url.protocol === 'file:' ? await this.readFromFile(url) : await this.readFromUrl(url);
-    api = yaml.load(text, { filename: url.href, schema: yaml.JSON_SCHEMA });
+    const parsed =
+      this.inputText && urlKey.href === ApiRefResolver.urlNonFragment(this.url).href
+        ? ApiRefResolver.parse(this.inputText.text, urlKey, this.inputText.format ?? documentFormatFor(urlKey))
+        : this.options.documentCache
+        ? await this.options.documentCache.load(urlKey, () => this.load(url))
+        : await this.load(url);
+    api = parsed.api;
     // Cache the api object by the URL
     this.urlToApiObjectMap[urlKey.href] = api;
+    this.sources.addDocument(urlKey, parsed.positions);
+    if (urlKey.href === ApiRefResolver.urlNonFragment(this.url).href && this.options.preserveFormatting) {
+      this.sourceText = parsed.text;
+    }
+    this.schemaIndex.addDocument(urlKey, api);
     this.note(`loaded API document from ${url.href}`);
     return {
       url: urlKey,
@@ -305,6 +786,192 @@ export class ApiRefResolver {
     };
   }
 
+  /**
+   * Read and parse an API document
+   * @param url the URL of the document
+   * @returns the parsed document, the positions of its elements, and its text if it is YAML
+   */
+  private async load(url: URL): Promise<CachedDocument> {
+    const urlKey = ApiRefResolver.urlNonFragment(url);
+    const loader = loaderFor(url, this.options.loaders);
+    if (!loader) {
+      throw new DiagnosticError('load-error', `No document loader for ${url.protocol} URL ${url.href}`);
+    }
+    let loaded: LoadedDocument;
+    try {
+      loaded = asLoadedDocument(await loader(url, this.options));
+    } catch (ex) {
+      throw new DiagnosticError('load-error', ex.message, { targetUrl: urlKey.href });
+    }
+    return ApiRefResolver.parse(loaded.text, urlKey, documentFormatFor(urlKey, loaded.contentType));
+  }
+
+  /**
+   * @param text the text of a document
+   * @param urlKey the URL of the document, without a fragment
+   * @param format the document format
+   * @returns the parsed document, the positions of its elements, and its text if it is YAML
+   */
+  private static parse(text: string, urlKey: URL, format: DocumentFormat): CachedDocument {
+    const parsed: CachedDocument = parseDocument(text, urlKey.href, format);
+    if (format === 'yaml') {
+      parsed.text = text;
+    }
+    return parsed;
+  }
+
+  /**
+   * Check every `$ref` in the resolved document and report those which
+   * do not refer to anything: local `#/...` references whose JSON Pointer does
+   * not exist in the resolved document, and external references which were not
+   * resolved. `$ref` objects which already failed to resolve were reported then.
+   */
+  private async validateRefs() {
+    const resolvedIndex = this.resolvedSchemaIndex();
+    const refValidatingVisitor = async (refObject: RefObject, nav: JsonNavigation): Promise<JsonItem> => {
+      const ref = refObject.$ref;
+      if (this.failedRefObjects.has(refObject)) {
+        return refObject;
+      }
+      let message: string;
+      const target = this.resolvedTarget(resolvedIndex, ref, nav.path());
+      if (!ref.startsWith('#') && !target) {
+        message = `$ref '${ref}' at ${nav.asFragment()} was not resolved`;
+      } else if (ref.startsWith('#') && !target) {
+        message = `$ref '${ref}' at ${nav.asFragment()} does not refer to an element of the resolved document`;
+      }
+      if (message) {
+        const location = this.sources.locate(nav.path());
+        this.report({
+          code: 'dangling-ref',
+          severity: this.danglingRefSeverity(false),
+          message,
+          ref,
+          document: location?.source ?? this.url.href,
+          pointer: location?.pointer ?? JsonNavigation.asFragment(nav.path()),
+          line: location?.line,
+          column: location?.column,
+        });
+      }
+      return refObject;
+    };
+    await visitRefObjects(this.apiDocument, refValidatingVisitor);
+  }
+
+  /**
+   * @returns an index of the schema resources and anchors of the resolved document
+   */
+  private resolvedSchemaIndex(): SchemaIndex {
+    const index = new SchemaIndex();
+    index.addDocument(this.url, this.apiDocument);
+    return index;
+  }
+
+  /**
+   * Find the element of the resolved document that a `$ref` refers to
+   * @param index the index from {@link resolvedSchemaIndex}
+   * @param ref the `$ref` string
+   * @param path the path to the `$ref` object in the resolved document
+   * @returns the path to the element, or `undefined` if the `$ref` does not refer to an element of the resolved document
+   */
+  private resolvedTarget(index: SchemaIndex, ref: string, path: JsonKey[]): JsonKey[] | undefined {
+    const rootUrl = ApiRefResolver.urlNonFragment(this.url).href;
+    let location: SchemaLocation;
+    try {
+      location = index.locate(new URL(ref, baseUrlAt(this.apiDocument, path, this.url)));
+    } catch (ex) {
+      // not a valid URL or JSON Pointer
+      return undefined;
+    }
+    if (location?.document !== rootUrl) {
+      return undefined;
+    }
+    const fragment = JsonNavigation.asFragment(location.path, true);
+    return JsonNavigation.hasItemAtFragment(this.apiDocument, fragment) ? location.path : undefined;
+  }
+
+  /**
+   * @param unreadable true for a `$ref` whose document or JSON Pointer could not be read
+   * @returns the severity for dangling references, from `options.danglingRefs`
+   */
+  private danglingRefSeverity(unreadable: boolean): 'error' | 'warning' {
+    return this.options.danglingRefs ?? (unreadable ? 'error' : 'warning');
+  }
+
+  /**
+   * Replace the local `$ref` objects in the resolved document with copies of their targets,
+   * and report recursive references if `options.recursiveRefs` is `error`
+   */
+  private dereference() {
+    const resolvedIndex = this.resolvedSchemaIndex();
+    const dereferenced = dereference(
+      this.apiDocument,
+      (at, from) => {
+        const location = this.sources.locate(from);
+        if (location) {
+          this.sources.add(at, new URL(location.source), JsonNavigation.asKeys(`#${location.pointer}`));
+        }
+      },
+      (ref, origin) => this.resolvedTarget(resolvedIndex, ref, origin),
+    );
+    this.apiDocument = dereferenced.api;
+    for (const recursive of dereferenced.recursive) {
+      const fragment = JsonNavigation.asFragment(recursive.path, true);
+      if (this.options.recursiveRefs === 'error') {
+        const location = this.sources.locate(recursive.path);
+        this.report({
+          code: 'recursive-ref',
+          severity: 'error',
+          message: `Recursive $ref '${recursive.ref}' at ${fragment} cannot be dereferenced`,
+          ref: recursive.ref,
+          document: location?.source,
+          pointer: location?.pointer,
+          line: location?.line,
+          column: location?.column,
+        });
+      } else {
+        this.note(`Kept recursive $ref '${recursive.ref}' at ${fragment}`);
+      }
+    }
+  }
+
+  /**
+   * Record a diagnostic
+   * @param diagnostic a problem found while resolving
+   */
+  private report(diagnostic: Diagnostic) {
+    this.note(`${diagnostic.severity} ${diagnostic.code}: ${diagnostic.message}`);
+    this.diagnostics.push(diagnostic);
+  }
+
+  /**
+   * Build the diagnostic for an error thrown while resolving a `$ref`.
+   * The diagnostic is located at the `$ref` object in the document that it was read from,
+   * and its message names the `$ref`.
+   * @param ex the error
+   * @param ref the `$ref` string
+   * @param nav where in the API document the `$ref` object resides
+   * @param url the URL the `$ref` resolved to, if known
+   * @returns the diagnostic
+   */
+  private refDiagnostic(ex: Error, ref: string, nav: JsonNavigation, url?: URL): Diagnostic {
+    const location = this.sources.locate(nav.path());
+    const code = ex instanceof DiagnosticError ? ex.code : 'resolve-error';
+    const dangling = code === 'load-error' || code === 'invalid-pointer';
+    return {
+      code,
+      severity: dangling ? this.danglingRefSeverity(true) : 'error',
+      message: `Cannot resolve $ref '${ref}' at ${nav.asFragment()}: ${ex.message}`,
+      ref,
+      document: location?.source ?? this.url.href,
+      pointer: location?.pointer ?? JsonNavigation.asFragment(nav.path()),
+      line: location?.line,
+      column: location?.column,
+      targetUrl: url?.href,
+      ...(ex instanceof DiagnosticError ? ex.details : {}),
+    };
+  }
+
   /**
    * Log a message if this.options.verbose is true
    * @param message message text
@@ -315,6 +982,23 @@ export class ApiRefResolver {
     }
   }
 
+  /**
+   * Convert a file name or URL string to a URL.
+   * Strings with a scheme prefix, such as `https:` or `mem:`, are parsed as URLs;
+   * other strings are file paths relative to the current directory.
+   * @param uri a file name, URL string, or URL
+   * @returns the URL
+   */
+  static toUrl(uri: string | URL): URL {
+    if (typeof uri !== 'string') {
+      return uri;
+    }
+    if (/^\w+:/.exec(uri)) {
+      return new URL(uri);
+    }
+    return pathToFileURL(path.resolve(process.cwd(), uri));
+  }
+
   static urlNonFragment(url: URL) {
     const urlNonFragment = new URL(url.href);
     urlNonFragment.hash = '';
@@ -331,7 +1015,7 @@ export class ApiRefResolver {
   private async refResolvingVisitor(refObject: RefObject, nav: JsonNavigation): Promise<JsonItem> {
     const ref = refObject.$ref as string;
     // console.log(`seen $ref ${ref} at path ${nav.toJsonPointer()}`);
-    if (ref.startsWith('#')) {
+    if (ref.startsWith('#') || this.failedRefObjects.has(refObject) || this.schemaRefObjects.has(refObject)) {
       return refObject;
     }
     const replacementRef = this.replacementRefFor(ref);
@@ -342,15 +1026,104 @@ export class ApiRefResolver {
     // below process*Replacement operations will inline content
     // that must be resolved again with a second scan in resolve()
     this.changed = true;
-    const url = this.relativeUrl(ref);
-    const fragment = ApiRefResolver.urlFragment(url);
-    if (!fragment) {
-      return await this.processFullReplacement(url, refObject, nav);
+    let url: URL;
+    try {
+      url = this.relativeUrl(ref, baseUrlAt(this.apiDocument, nav.path(), this.url).href);
+      const location = await this.schemaLocation(url);
+      if (location) {
+        return await this.processSchemaReplacement(url, location, refObject, nav);
+      }
+      const fragment = ApiRefResolver.urlFragment(url);
+      if (!fragment) {
+        return await this.processFullReplacement(url, refObject, nav);
+      }
+      if (ApiRefResolver.COMPONENT_REGEXP.exec(fragment)) {
+        return await this.processComponentReplacement(url, refObject, nav);
+      }
+      return await this.processOtherReplacement(url, refObject, ref, nav);
+    } catch (ex) {
+      // Leave the `$ref` as-is and continue, so that all problems are reported
+      this.failedRefObjects.add(refObject);
+      this.report(this.refDiagnostic(ex, ref, nav, url));
+      return refObject;
+    }
+  }
+
+  /**
+   * Find the element that a `$ref` URL refers to if the URL is the `$id` of a schema resource
+   * or its fragment is an anchor name. The document is read if needed to find an anchor.
+   * @param url the absolute `$ref` URL
+   * @returns the location of the element, or `undefined` for other URLs, which are
+   * a document URL with an optional JSON Pointer
+   * @throws DiagnosticError if there is no such anchor
+   */
+  private async schemaLocation(url: URL): Promise<SchemaLocation | undefined> {
+    const isAnchor = !isPointerFragment(url.hash);
+    if (!isAnchor && !this.schemaIndex.isSchemaId(url)) {
+      return undefined;
+    }
+    let location = this.schemaIndex.locate(url);
+    if (!location && isAnchor && !this.schemaIndex.isSchemaId(url)) {
+      await this.api(ApiRefResolver.urlNonFragment(url));
+      location = this.schemaIndex.locate(url);
+    }
+    if (!location) {
+      throw new DiagnosticError('invalid-pointer', `No $anchor or $dynamicAnchor ${url.hash} in ${url.href}`, {
+        targetUrl: url.href,
+      });
+    }
+    return location;
+  }
+
+  /**
+   * Resolve a `$ref` to a schema `$id` or anchor.
+   * If the element is in the root document, the `$ref` becomes a local `#/...` reference.
+   * If it is in (or is) a component of another document, that component is added as for
+   * {@link processComponentReplacement} and the `$ref` refers to the element within it;
+   * otherwise, the element is copied as for {@link processOtherReplacement}.
+   * A `$ref` within a schema resource is relative to the `$id` of the resource, so `#/...`
+   * references would not work there: such a `$ref` which refers to another schema resource
+   * keeps its absolute `$id` form, which works because the resource is in the resolved document.
+   * @param url the absolute `$ref` URL
+   * @param location the element that `url` refers to
+   * @param refObject the `$ref` object
+   * @param nav where in the API document the refObject resides
+   * @returns the updated JSON item
+   */
+  private async processSchemaReplacement(
+    url: URL,
+    location: SchemaLocation,
+    refObject: RefObject,
+    nav: JsonNavigation,
+  ): Promise<JsonItem> {
+    const targetUrl = new URL(JsonNavigation.asFragment(location.path, true), location.document);
+    const inResource =
+      this.schemaIndex.isSchemaId(url) &&
+      baseUrlAt(this.apiDocument, nav.path(), this.url).href !== ApiRefResolver.urlNonFragment(this.url).href;
+    let pointer: string;
+    if (location.document === ApiRefResolver.urlNonFragment(this.url).href) {
+      pointer = targetUrl.hash;
+    } else if (location.path.length >= 3 && location.path[0] === 'components') {
+      const componentUrl = new URL(JsonNavigation.asFragment(location.path.slice(0, 3), true), location.document);
+      if (location.path.length === 3 && !inResource) {
+        return await this.processComponentReplacement(componentUrl, refObject, nav);
+      }
+      // navigate from the root so that the component is always added to `components`
+      const componentRef: RefObject = { $ref: componentUrl.href };
+      await this.processComponentReplacement(componentUrl, componentRef, new JsonNavigation(this.apiDocument));
+      pointer = `${componentRef.$ref}${JsonNavigation.asFragment(location.path.slice(3))}`;
+    } else if (location.path.length === 0) {
+      return await this.processFullReplacement(ApiRefResolver.urlNonFragment(targetUrl), refObject, nav);
+    } else {
+      return await this.processOtherReplacement(targetUrl, refObject, targetUrl.href, nav);
     }
-    if (ApiRefResolver.COMPONENT_REGEXP.exec(fragment)) {
-      return await this.processComponentReplacement(url, refObject, nav);
+    if (inResource) {
+      refObject.$ref = url.href;
+      this.schemaRefObjects.add(refObject);
+    } else {
+      refObject.$ref = pointer;
     }
-    return await this.processOtherReplacement(url, refObject, ref, nav);
+    return refObject;
   }
 
   /**
@@ -373,7 +1146,7 @@ export class ApiRefResolver {
    * @returns the URL of the referenced API object
    */
   private relativeUrl(ref: string, baseUrl?: string) {
-    if (ref.startsWith('http:') || ref.startsWith('http:')) {
+    if (ref.startsWith('http:') || ref.startsWith('https:')) {
       return new URL(ref);
     }
     const relUrl = new URL(ref, baseUrl ?? this.url.href);
@@ -390,7 +1163,10 @@ export class ApiRefResolver {
    * to `../c.yaml#/components/schemas/anotherThing` so that it is a correct `$ref` in the
    * context of `a.yaml`. Similarly, local refs such as `"#/components/schemas/thing"`
    * are rewritten as `"../c.yaml#/components/schemas/thing"`
-   * TODO: Presently, this uses absolute URLs, but for files the href should be relative to the current file.
+   * A `$ref` within a JSON Schema resource is relative to the nearest `$id` rather than to
+   * the document, so each `$ref` is resolved against its base URI. Each `$id` is
+   * also made absolute, so that it has the same meaning wherever it is embedded.
+   * This uses absolute URLs; {@link relativizeUrls} makes those left in the resolved document relative.
    * @param documentUrl the normalized URL of the  document being scanned, such as `'file://path/to/apis/models/b.yaml'`
    * in the example.
    * @param api An API object that was read from `url`
@@ -400,13 +1176,15 @@ export class ApiRefResolver {
     if (this.areRefsAlreadyRewritten(nonFragmentUrl, 'path')) {
       return;
     }
-    const refRewriteVisitor = async (node: RefObject): Promise<Node> => {
-      // TODO: fix this to use relative URLs, not absolute URLs.
-      const refNormalizedUrl = new URL(node.$ref, nonFragmentUrl);
-      node.$ref = refNormalizedUrl.href;
-      return node;
-    };
-    await visitRefObjects(api, refRewriteVisitor);
+    walkWithBase(api, nonFragmentUrl, (node, base) => {
+      if (typeof node['$id'] === 'string') {
+        node['$id'] = base.href;
+      }
+      if (isRef(node)) {
+        const refNormalizedUrl = new URL((node as RefObject).$ref, base);
+        (node as RefObject).$ref = refNormalizedUrl.href;
+      }
+    });
     this.markRefsAlreadyRewritten(nonFragmentUrl, 'path');
   }
 
@@ -429,7 +1207,7 @@ export class ApiRefResolver {
     const prefix = nav.asFragment();
     const refRewriteVisitor = async (node: RefObject): Promise<Node> => {
       const ref = node.$ref;
-      if (ref.startsWith('#')) {
+      if (ref.startsWith('#') && isPointerFragment(ref)) {
         node.$ref = `${prefix}${ref.substring(1)}`;
       }
       return node;
@@ -468,15 +1246,24 @@ export class ApiRefResolver {
    * Check if the inlined component already exists.
    * If it exists and it was resolved from a different URL, then:
    *   * if the component conflictStrategy in the option is `error`, throw an error
-   *   * if the policy is `rename`, change the name by adding a unique suffix
+   *   * if the policy is `rename`, change the name as per the `renamePolicy`
+   * Each conflict is recorded for `ApiRefResolution.conflicts`.
    * Also create the components object and components section (componentKeys[1])
    * object if they do not exist on `this.apiObject`.
+   * If the policy is `dedupe` and the existing component is equivalent to `item`,
+   * the location is marked for reuse.
    * @param refObject the current reference object
    * @param componentKeys the JSON keys to the component, [components, sectionName, componentName]
    * @param originalUrl $ref object URL of the component
+   * @param item the component being added
    * @returns component location
    */
-  private checkComponentConflict(refObject: ApiObject, componentKeys: JsonKey[], originalUrl: URL): ComponentLocation {
+  private checkComponentConflict(
+    refObject: ApiObject,
+    componentKeys: JsonKey[],
+    originalUrl: URL,
+    item: JsonItem,
+  ): ComponentLocation {
     assert(componentKeys[0] === 'components');
 
     const urlNoFragment = ApiRefResolver.urlNonFragment(originalUrl);
@@ -498,31 +1285,128 @@ export class ApiRefResolver {
       // The component is defined by a ref and we're processing it!
       return { section, sectionName, componentName };
     }
-    const resolvedFrom = existing['x-resolved-from'];
-    const sameResolution = resolvedFrom === urlNoFragment.href;
+    const existingLocation = this.sources.locate(['components', sectionName, componentName]);
+    const resolvedFrom = existingLocation ? `${existingLocation.source}#${existingLocation.pointer}` : undefined;
+    // compare the URL and the (decoded) JSON Pointer separately, since the pointer is not URI-encoded
+    if (
+      existingLocation?.source === urlNoFragment.href &&
+      existingLocation.pointer === JsonNavigation.asFragment(componentKeys)
+    ) {
+      return { section, sectionName, componentName };
+    }
+    let strategy = this.options?.conflictStrategy ?? 'rename';
+    if (strategy === 'dedupe') {
+      strategy = this.sameComponent(existing, item) ? 'dedupe' : this.options.dedupeFallback ?? 'rename';
+    }
+    const conflict: ComponentConflict = {
+      section: sectionName,
+      originalName: componentName,
+      existingUrl: resolvedFrom,
+      url: originalUrl.href,
+      strategy,
+    };
+    this.conflicts.push(conflict);
 
-    if (!sameResolution && this.options?.conflictStrategy === 'error') {
+    if (strategy === 'dedupe') {
+      this.note(`Reusing identical component ${componentName} from ${resolvedFrom} for ${originalUrl.href}`);
+      conflict.newName = componentName;
+      return { section, sectionName, componentName, reuse: true };
+    }
+
+    if (strategy === 'error') {
       const resolvedFromText = resolvedFrom ? ` from ${resolvedFrom}` : '';
-      throw new Error(
+      throw new DiagnosticError(
+        'component-conflict',
         `Cannot embed component ${componentKeys} from ${originalUrl.href}: component already exists${resolvedFromText}`,
       );
     }
 
-    if (this.options?.conflictStrategy === 'ignore') {
+    if (strategy === 'ignore') {
       this.note(`Component conflict ignored. ${componentName} found at both ${resolvedFrom} and ${urlNoFragment.href}`);
+      conflict.newName = componentName;
       return { section, sectionName, componentName };
     }
 
-    let candidateName = componentName;
+    const candidateName = this.uniqueName(
+      section,
+      this.renamedComponent({
+        section: sectionName,
+        componentName,
+        url: originalUrl.href,
+        existingUrl: resolvedFrom,
+        existingNames: Object.keys(section),
+      }),
+    );
+    componentKeys[2] = candidateName;
+    conflict.newName = candidateName;
+
+    this.note(`Renamed components.${sectionName}.${componentName} from ${urlNoFragment.href} as ${candidateName}`);
+    return { section, sectionName, componentName: candidateName };
+  }
+
+  /**
+   * Choose the new name for a conflicting component, as per `options.renamePolicy`
+   * @param context the component to rename
+   * @returns the new name, which may still conflict with an existing component
+   */
+  private renamedComponent(context: RenameContext): string {
+    const renamePolicy = this.options.renamePolicy ?? 'suffix';
+    if (typeof renamePolicy === 'function') {
+      return renamePolicy(context);
+    }
+    if (renamePolicy === 'namespace') {
+      const url = ApiRefResolver.urlNonFragment(new URL(context.url));
+      const aliases = this.options.namespaces ?? {};
+      const alias = Object.keys(aliases).find((key) => this.relativeUrl(key).href === url.href);
+      const namespace = alias ? aliases[alias] : namespaceFromUrl(url);
+      const name = context.componentName;
+      return `${namespace}${name.substring(0, 1).toUpperCase()}${name.substring(1)}`;
+    }
+    return context.componentName;
+  }
+
+  /**
+   * Make a component name unique within a components section by adding an integer suffix if needed
+   * @param section the components section object
+   * @param name the preferred component name
+   * @returns `name`, or `name` with the smallest integer suffix that is not in use
+   */
+  private uniqueName(section: object, name: string): string {
+    let candidateName = name;
     let suffix = 0;
     while (section.hasOwnProperty(candidateName)) {
       suffix += 1;
-      candidateName = `${componentName}${suffix}`;
+      candidateName = `${name}${suffix}`;
     }
-    componentKeys[2] = candidateName;
+    return candidateName;
+  }
 
-    this.note(`Renamed components.${sectionName}.${componentName} from ${urlNoFragment.href} as ${candidateName}`);
-    return { section, sectionName, componentName: candidateName };
+  /**
+   * Test if an existing component is equivalent to a component being added,
+   * ignoring the resolver markers. `$ref` objects are compared by the items they refer
+   * to, which may be in the resolved document or in an API document read from a URL.
+   * @param existing the existing component in the resolved document
+   * @param item the component being added
+   * @returns `true` iff the components are equivalent
+   */
+  private sameComponent(existing: JsonItem, item: JsonItem): boolean {
+    const ignoredKeys = [...this.markerNames(), ApiRefResolver.TEMPORARY_MARKER];
+    const lookup = (ref: string): JsonItem | undefined => {
+      const replacement = this.replacementRefFor(ref) ?? ref;
+      const url = this.relativeUrl(replacement);
+      const document = replacement.startsWith('#')
+        ? this.apiDocument
+        : this.urlToApiObjectMap[ApiRefResolver.urlNonFragment(url).href];
+      const fragment = ApiRefResolver.urlFragment(url);
+      if (!document || !fragment) {
+        return document;
+      }
+      if (!fragment.startsWith('#/') || !JsonNavigation.hasItemAtFragment(document, fragment)) {
+        return undefined;
+      }
+      return new JsonNavigation(document).itemAtPointer(JsonNavigation.asKeys(fragment));
+    };
+    return equivalent(existing, item, ignoredKeys, lookup);
   }
 
   /**
@@ -660,16 +1544,21 @@ export class ApiRefResolver {
     // components/foo/bar: { $ref: uri:/components/foo/bar }
     if (nav.isAtComponent() && this.isSimpleRef(refObject) && this.sameComponentName(nav, componentKeys)) {
       this.rememberReplacementForRef(reference, nav.asFragment());
+      this.sources.add(nav.path(), urlNoFragment, itemPath);
       return item; // item is already safely cloned cia this.api()
     }
 
-    const { section, sectionName, componentName } = this.checkComponentConflict(
+    const { section, sectionName, componentName, reuse } = this.checkComponentConflict(
       refObject,
       componentKeys,
       normalizedRefUrl,
+      item,
     ); // this may rename the new resolved component
-    const newVal = ApiRefResolver.deepClone(item);
-    section[componentName] = newVal;
+    if (!reuse) {
+      const newVal = ApiRefResolver.deepClone(item);
+      section[componentName] = newVal;
+      this.sources.add(['components', sectionName, componentName], urlNoFragment, itemPath);
+    }
     const resolvedRef = JsonNavigation.asFragment(['components', sectionName, componentName], true);
     this.rememberReplacementForRef(reference, resolvedRef);
     refObject.$ref = resolvedRef;
@@ -777,6 +1666,7 @@ export class ApiRefResolver {
     await this.rewriteRefPaths(normalizedRefUrl, api); // always call this after rewriteLocalRefsWithPrefix
     const merged = this.mergeRefObject(refObject, api);
     this.tag(merged, normalizedRefUrl, nav);
+    this.sources.add(nav.path(), normalizedRefUrl, []);
     return merged;
   }
 
@@ -865,21 +1755,83 @@ export class ApiRefResolver {
     // await this.rewriteRefFragments(baseUrl, api, nav);  // always call this before rewriteRefPaths
     await this.rewriteRefPaths(baseUrl, api);
     const item = this.apiItem(api, itemPath);
+    // A component which is a $ref to a fragment is replaced with a copy as usual
+    const sectionName =
+      this.options.hoistFragments && !nav.isAtComponent()
+        ? inferComponentSection(nav.path()) ?? inferComponentSection(itemPath)
+        : undefined;
+    if (sectionName) {
+      return this.hoistFragment(normalizedRefUrl, refObject, reference, sectionName, item, itemPath);
+    }
     const resolvedRef = normalizedRefUrl.hash;
     this.rememberReplacementForRef(reference, resolvedRef);
     this.tag(item, normalizedRefUrl, nav);
     const merged = this.mergeRefObject(refObject, item);
+    this.sources.add(nav.path(), urlNoFragment, itemPath);
     return merged;
   }
 
+  /**
+   * Add an element of another document as a new component, and change the `$ref` to refer to it
+   * @param normalizedRefUrl the URL of the element
+   * @param refObject the `$ref` object
+   * @param reference the normalized `$ref` string
+   * @param sectionName the components section for the element
+   * @param item a copy of the element
+   * @param itemPath the path to the element in its document
+   * @returns the updated `$ref` object
+   */
+  private hoistFragment(
+    normalizedRefUrl: URL,
+    refObject: RefObject,
+    reference: string,
+    sectionName: string,
+    item: JsonItem,
+    itemPath: JsonKey[],
+  ): JsonItem {
+    if (!this.apiDocument['components']) {
+      this.apiDocument['components'] = {};
+    }
+    const components: object = this.apiDocument['components'];
+    if (!components[sectionName]) {
+      components[sectionName] = {};
+    }
+    const componentName = this.uniqueName(components[sectionName], componentNameFor(itemPath));
+    this.tag(item, normalizedRefUrl, undefined);
+    components[sectionName][componentName] = item;
+    this.sources.add(['components', sectionName, componentName], normalizedRefUrl, itemPath);
+    const resolvedRef = JsonNavigation.asFragment(['components', sectionName, componentName], true);
+    this.note(`Hoisted ${normalizedRefUrl.href} to ${resolvedRef}`);
+    this.rememberReplacementForRef(reference, resolvedRef);
+    refObject.$ref = resolvedRef;
+    return refObject;
+  }
+
+  /**
+   * Add the markers to a resolved element, as configured by `options.markers`,
+   * and the temporary marker which prevents resolving it again.
+   * @param item the resolved element
+   * @param normalizedRefUrl the URL it was resolved from
+   * @param nav the location of the `$ref` object it was resolved for, if any
+   * @param tagDateTime `true` for the resolved document itself, which also gets the `resolvedAt` marker
+   */
   tag(item: JsonItem, normalizedRefUrl: URL, nav: JsonNavigation | undefined, tagDateTime = false) {
     if (item != null && typeof item === 'object') {
-      const taggable = nav === undefined || this.taggable(item, nav);
-      if (taggable) {
-        item[ApiRefResolver.RESOLVED_FROM_MARKER] = normalizedRefUrl.href;
-        if (tagDateTime) {
-          item[ApiRefResolver.RESOLVED_AT_MARKER] = this.dateTime;
+      const markers = this.options.markers ?? {};
+      const context: MarkerContext = { item, source: normalizedRefUrl.href, refPath: nav?.path(), root: tagDateTime };
+      if (!this.options.noMarkers && (markers.placement ?? defaultMarkerPlacement)(context)) {
+        const emit = markers.emit ?? ['resolvedFrom', 'resolvedAt', 'provenance'];
+        if (emit.includes('resolvedFrom')) {
+          item[this.resolvedFromMarker()] = normalizedRefUrl.href;
+        }
+        if (tagDateTime && this.dateTime && emit.includes('resolvedAt')) {
+          item[this.resolvedAtMarker()] = this.dateTime;
         }
+        const provenance = emit.includes('provenance') ? markers.provenance?.(context) : undefined;
+        Object.keys(provenance ?? {}).forEach((marker) => {
+          item[marker] = provenance[marker];
+          this.provenanceMarkers.add(marker);
+        });
       }
       item[ApiRefResolver.TEMPORARY_MARKER] = true; // temporary marker to be removed
     }
@@ -888,16 +1840,33 @@ export class ApiRefResolver {
   /**
    * Indicate if the location is taggable.
    * The location is taggable if not a $ref object or it's nav is a schema.
-   * (OpenAPI does not allow x- specification extension in reference objects,
-   * but JSON Schema does.)
+   * @param item the resolved element
    * @param nav the navigation to the current location
    * @returns if the object at this spot can be tagged with an x-resolved-from marker
+   * @deprecated use {@link defaultMarkerPlacement}, or the `markers.placement` option
    */
   taggable(item: JsonItem, nav: JsonNavigation) {
-    if (isRef(item)) {
-      const path = nav.path();
-      return path.length > 2 && ((path[0] === 'components' && path[1] === 'schemas') || path.includes('schema'));
-    }
-    return true;
+    return defaultMarkerPlacement({ item, source: this.url.href, refPath: nav.path(), root: false });
+  }
+
+  /**
+   * @returns the name of the `resolvedFrom` marker, from `options.markers`
+   */
+  private resolvedFromMarker(): string {
+    return this.options.markers?.resolvedFrom ?? ApiRefResolver.RESOLVED_FROM_MARKER;
+  }
+
+  /**
+   * @returns the name of the `resolvedAt` marker, from `options.markers`
+   */
+  private resolvedAtMarker(): string {
+    return this.options.markers?.resolvedAt ?? ApiRefResolver.RESOLVED_AT_MARKER;
+  }
+
+  /**
+   * @returns the names of all the markers the resolver adds
+   */
+  private markerNames(): string[] {
+    return [this.resolvedFromMarker(), this.resolvedAtMarker(), ...this.provenanceMarkers];
   }
 }
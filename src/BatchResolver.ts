@@ -0,0 +1,202 @@
+/**
+ * Batch mode: resolve many root API documents in one run, sharing one
+ * {@link DocumentCache} so that documents used by several roots are read and parsed once.
+ */
+
+import * as path from 'path';
+import { URL } from 'url';
+
+import { ApiRefResolver } from './ApiRefResolver';
+import type { ApiRefOptions, ApiRefResolution } from './ApiRefResolver';
+import type { Diagnostic } from './Diagnostics';
+import { displayUrl, ResolutionError } from './Diagnostics';
+import { DocumentCache } from './DocumentCache';
+
+/** The default number of roots resolved at the same time */
+export const DEFAULT_CONCURRENCY = 4;
+
+/**
+ * Options for {@link resolveAll}
+ */
+export interface BatchOptions {
+  /**
+   * The maximum number of roots resolved at the same time: a whole number of at least 1.
+   * The default is {@link DEFAULT_CONCURRENCY}
+   */
+  concurrency?: number;
+  /**
+   * The output directory. Each root's `outputPath` is its path relative to the directory
+   * which contains all the roots, within this directory; the extension is `.json` if the
+   * `outputFormat` option is `json`.
+   */
+  outDir?: string;
+  /**
+   * Called as each root is resolved or fails, such as to write its output.
+   * If it throws, such as when the output cannot be written, the root fails with that error.
+   * @param result the result for the root
+   */
+  onResult?: (result: RootResult) => void | Promise<void>;
+}
+
+/**
+ * The result of resolving one root API document
+ */
+export interface RootResult {
+  /** The URL of the root API document */
+  root: string;
+  /** The output file name for the root, if `outDir` is set */
+  outputPath?: string;
+  /** The resolution, if the root was resolved without errors */
+  resolution?: ApiRefResolution;
+  /** The diagnostics for the root, including the errors if it failed */
+  diagnostics: Diagnostic[];
+  /** The error message, if the root could not be resolved */
+  error?: string;
+  /** How long resolving the root took, in milliseconds */
+  duration: number;
+}
+
+/**
+ * The result of {@link resolveAll}
+ */
+export interface BatchReport {
+  /** The result for each root, in the order of the roots */
+  results: RootResult[];
+  /** The URLs of the distinct documents read for all the roots */
+  documents: string[];
+  /** How long the batch took, in milliseconds */
+  duration: number;
+}
+
+/**
+ * @param url the URL of a root document
+ * @returns the path segments of the URL, prefixed with the host for URLs other than `file:`
+ */
+function segmentsOf(url: URL): string[] {
+  const segments = url.pathname
+    .split('/')
+    .filter((segment) => segment !== '')
+    .map(decodeURIComponent);
+  return url.protocol === 'file:' ? segments : [url.host, ...segments];
+}
+
+/**
+ * Map each root to its output file: its path relative to the directory which
+ * contains all the roots, within `outDir`
+ * @param roots the URLs of the root documents
+ * @param outDir the output directory
+ * @param format the output format; `json` changes the extension to `.json`, and `yaml`
+ * changes a `.json` extension to `.yaml`
+ * @returns the output file names, in the order of the roots
+ */
+export function batchOutputPaths(roots: URL[], outDir: string, format?: 'yaml' | 'json'): string[] {
+  const rootSegments = roots.map(segmentsOf);
+  const directories = rootSegments.map((segments) => segments.slice(0, -1));
+  let common = 0;
+  while (directories.every((directory) => common < directory.length && directory[common] === directories[0][common])) {
+    common++;
+  }
+  return rootSegments.map((segments) => {
+    const outputPath = path.join(outDir, ...segments.slice(common));
+    const extension = path.extname(outputPath);
+    if (format === 'json' && extension.toLowerCase() !== '.json') {
+      return `${outputPath.substring(0, outputPath.length - extension.length)}.json`;
+    }
+    if (format === 'yaml' && extension.toLowerCase() === '.json') {
+      return `${outputPath.substring(0, outputPath.length - extension.length)}.yaml`;
+    }
+    return outputPath;
+  });
+}
+
+/**
+ * Resolve several root API documents. Each root is resolved by its own {@link ApiRefResolver}
+ * with its own copy of the options, so their results are independent; the documents they
+ * read are shared through one `documentCache`, and a document needed by roots resolved at the
+ * same time is read once. A root which fails does not stop the others.
+ * @param roots the file names or URLs of the root API documents
+ * @param options the resolver options for every root. Unless a `documentCache` is passed,
+ * a new one is used. `outputPath` is set for each root from `batch.outDir`.
+ * @param batch the concurrency, output directory and progress callback
+ * @returns the result for each root, and the documents read
+ */
+export async function resolveAll(roots: string[], options?: ApiRefOptions, batch?: BatchOptions): Promise<BatchReport> {
+  const started = Date.now();
+  const documentCache = options?.documentCache ?? new DocumentCache();
+  const rootUrls = roots.map((root) => ApiRefResolver.urlNonFragment(ApiRefResolver.toUrl(root)));
+  const outputPaths = batch?.outDir ? batchOutputPaths(rootUrls, batch.outDir, options?.outputFormat) : [];
+  const results: RootResult[] = new Array(roots.length);
+
+  const resolveRoot = async (index: number): Promise<RootResult> => {
+    const rootStarted = Date.now();
+    const result: RootResult = {
+      root: rootUrls[index].href,
+      outputPath: outputPaths[index],
+      diagnostics: [],
+      duration: 0,
+    };
+    try {
+      result.resolution = await new ApiRefResolver(rootUrls[index]).resolve({
+        ...options,
+        documentCache,
+        outputPath: outputPaths[index],
+      });
+      result.diagnostics = result.resolution.diagnostics;
+    } catch (ex) {
+      result.error = ex.message;
+      result.diagnostics = ex instanceof ResolutionError ? ex.diagnostics : [];
+    }
+    result.duration = Date.now() - rootStarted;
+    return result;
+  };
+
+  let next = 0;
+  const worker = async () => {
+    while (next < roots.length) {
+      const index = next++;
+      results[index] = await resolveRoot(index);
+      try {
+        await batch?.onResult?.(results[index]);
+      } catch (ex) {
+        results[index].error = ex.message;
+      }
+    }
+  };
+  const concurrency =
+    Number.isInteger(batch?.concurrency) && batch.concurrency > 0 ? batch.concurrency : DEFAULT_CONCURRENCY;
+  await Promise.all(Array.from({ length: Math.min(concurrency, roots.length) }, worker));
+
+  const documents = new Set<string>();
+  results.forEach((result) => result.resolution?.documents.forEach((document) => documents.add(document)));
+  return { results, documents: [...documents], duration: Date.now() - started };
+}
+
+/**
+ * Format a batch report for display
+ * @param report the batch report
+ * @param format `text` lists each root, its output and whether it failed, then the totals;
+ * `json` is the report as JSON, without the resolutions
+ * @returns the formatted report
+ */
+export function formatBatchReport(report: BatchReport, format: 'text' | 'json' = 'text'): string {
+  if (format === 'json') {
+    return JSON.stringify(report, (key, value) => (key === 'resolution' ? undefined : value), 2);
+  }
+  const lines = report.results.map((result) => {
+    const errors = result.diagnostics.filter((diagnostic) => diagnostic.severity === 'error').length;
+    const warnings = result.diagnostics.length - errors;
+    const target = result.outputPath ? ` -> ${result.outputPath}` : '';
+    const status = result.error
+      ? `failed (${errors || 1} error(s))`
+      : `resolved ${result.resolution.documents.length} document(s)${warnings ? `, ${warnings} warning(s)` : ''}`;
+    return `${displayUrl(result.root)}${target}: ${status} in ${result.duration}ms`;
+  });
+  const failed = report.results.filter((result) => result.error).length;
+  lines.push(
+    `Resolved ${report.results.length - failed} of ${report.results.length} API document(s)` +
+      `${failed ? `; ${failed} failed` : ''}, reading ${report.documents.length} distinct document(s), in ${
+        report.duration
+      }ms`,
+  );
+  return lines.join('\n');
+}
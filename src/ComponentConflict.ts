@@ -0,0 +1,99 @@
+/**
+ * Reports components which were renamed (or otherwise handled by the
+ * `conflictStrategy`) because a component with the same name already existed.
+ */
+
+import { displayUrl } from './Diagnostics';
+
+/**
+ * A conflict between a component being added to the resolved document
+ * and an existing component with the same name
+ */
+export interface ComponentConflict {
+  /** The components section, such as `schemas` or `responses` */
+  section: string;
+  /** The name of the component in its source document */
+  originalName: string;
+  /**
+   * The name of the component in the resolved document; this differs
+   * from `originalName` if the component was renamed. It is omitted
+   * if the conflict was an error.
+   */
+  newName?: string;
+  /** Where the existing component came from: a URL with a JSON Pointer fragment */
+  existingUrl: string;
+  /** Where the conflicting component came from: a URL with a JSON Pointer fragment */
+  url: string;
+  /**
+   * The `conflictStrategy` which was applied; `dedupe` means the components
+   * were identical and the existing component was reused.
+   */
+  strategy: 'error' | 'rename' | 'ignore' | 'dedupe';
+}
+
+/**
+ * Describes a component which must be renamed, for a {@link ComponentRenamer}
+ */
+export interface RenameContext {
+  /** The components section, such as `schemas` or `responses` */
+  section: string;
+  /** The name of the component in its source document */
+  componentName: string;
+  /** Where the component came from: a URL with a JSON Pointer fragment */
+  url: string;
+  /** Where the existing component with the same name came from */
+  existingUrl: string;
+  /** The names of the components already in the section */
+  existingNames: string[];
+}
+
+/**
+ * Function signature for a custom `renamePolicy`.
+ * If the returned name is also in use, a unique integer suffix is added to it.
+ * @param context the component to rename
+ * @returns the new component name
+ */
+export type ComponentRenamer = (context: RenameContext) => string;
+
+/**
+ * Derive a namespace prefix from a document URL: the file name without
+ * its extension, in PascalCase. For example, `common/problem-types.yaml` yields `ProblemTypes`.
+ * @param url the URL of an API document
+ * @returns the namespace
+ */
+export function namespaceFromUrl(url: URL): string {
+  const baseName = decodeURIComponent(url.pathname.split('/').pop() ?? '').replace(/\.[^.]*$/, '');
+  return baseName
+    .split(/[^A-Za-z0-9]+/)
+    .filter((word) => word.length > 0)
+    .map((word) => `${word[0].toUpperCase()}${word.substring(1)}`)
+    .join('');
+}
+
+/**
+ * Format a list of component conflicts for display
+ * @param conflicts the conflicts from `ApiRefResolution.conflicts`
+ * @param format `json` for a JSON array, or `table` for a text table
+ * @returns the formatted conflicts
+ */
+export function formatConflicts(conflicts: ComponentConflict[], format: 'table' | 'json' = 'table'): string {
+  if (format === 'json') {
+    return JSON.stringify(conflicts, null, 2);
+  }
+  const header = ['Section', 'Component', 'Renamed to', 'Strategy', 'Existing from', 'Conflicting from'];
+  const rows = conflicts.map((conflict) => [
+    conflict.section,
+    conflict.originalName,
+    conflict.newName ?? '',
+    conflict.strategy,
+    displayUrl(conflict.existingUrl),
+    displayUrl(conflict.url),
+  ]);
+  const widths = header.map((title, column) => Math.max(title.length, ...rows.map((row) => row[column].length)));
+  const line = (cells: string[]) =>
+    cells
+      .map((cell, column) => cell.padEnd(widths[column]))
+      .join('  ')
+      .trimEnd();
+  return [line(header), line(widths.map((width) => '-'.repeat(width))), ...rows.map(line)].join('\n');
+}
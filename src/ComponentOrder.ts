@@ -0,0 +1,37 @@
+/**
+ * Canonical ordering of the components of a resolved API document, so that the
+ * output does not depend on the order in which `$ref` objects were found.
+ */
+
+import type { ApiObject } from './ApiRefResolver';
+
+/**
+ * Reorder the members of an object by key, in place
+ * @param object an object
+ */
+function sortKeys(object: object) {
+  for (const key of Object.keys(object).sort()) {
+    const value = object[key];
+    delete object[key];
+    object[key] = value;
+  }
+}
+
+/**
+ * Sort the `components` sections by name, and the components in each section by name.
+ * Keys are compared by UTF-16 code unit, which does not depend on the locale.
+ * The components themselves are not changed.
+ * @param api a resolved API document; it is modified in place
+ */
+export function sortComponents(api: ApiObject) {
+  const components = api?.['components'];
+  if (components === null || typeof components !== 'object' || Array.isArray(components)) {
+    return;
+  }
+  sortKeys(components);
+  for (const section of Object.values(components)) {
+    if (section !== null && typeof section === 'object' && !Array.isArray(section)) {
+      sortKeys(section);
+    }
+  }
+}
@@ -0,0 +1,124 @@
+/**
+ * Replaces the local `$ref` objects of a resolved API document with copies of
+ * the elements they refer to, for tools which cannot follow `$ref` at all.
+ */
+
+import type { ApiObject } from './ApiRefResolver';
+import { JsonNavigation, JsonKey } from './JsonNavigation';
+import { isRef } from './RefVisitor';
+import type { RefObject } from './RefVisitor';
+
+/**
+ * A `$ref` which was not replaced because it refers to an element which contains it
+ */
+export interface RecursiveRef {
+  /** The `$ref` string, such as `#/components/schemas/node` */
+  ref: string;
+  /** The path to the `$ref` object in the dereferenced document */
+  path: JsonKey[];
+}
+
+/**
+ * The result of {@link dereference}
+ */
+export interface Dereferenced {
+  /** The document, without local `$ref` objects other than the `recursive` ones */
+  api: ApiObject;
+  /** The recursive `$ref` objects, which are left in place */
+  recursive: RecursiveRef[];
+}
+
+/**
+ * Function signature for observing each replaced `$ref`
+ * @param at the path to the replaced `$ref` object in the dereferenced document
+ * @param from the path to the element it refers to in the original document
+ */
+export type InlineObserver = (at: JsonKey[], from: JsonKey[]) => void;
+
+/**
+ * Function signature for finding the element that a `$ref` refers to
+ * @param ref the `$ref` string
+ * @param origin the path to the `$ref` object in the original document
+ * @returns the path to the element in the original document, or `undefined` to leave the `$ref` in place
+ */
+export type RefLocator = (ref: string, origin: JsonKey[]) => JsonKey[] | undefined;
+
+/**
+ * The default {@link RefLocator}: local `#/...` JSON Pointers which exist in the document
+ * @param api the document
+ */
+function pointerLocator(api: ApiObject): RefLocator {
+  return (ref) =>
+    ref.startsWith('#') && JsonNavigation.hasItemAtFragment(api, ref)
+      ? JsonNavigation.asKeys(`#${decodeURIComponent(ref.substring(1))}`)
+      : undefined;
+}
+
+/**
+ * @param pointer a JSON Pointer
+ * @param prefix another JSON Pointer
+ * @returns `true` if `pointer` is `prefix` or an element within it
+ */
+function within(pointer: string, prefix: string): boolean {
+  return pointer === prefix || pointer.startsWith(`${prefix}/`);
+}
+
+/**
+ * Replace every local `#/...` `$ref` object with a copy of the element it refers to,
+ * itself dereferenced. Other members of a `$ref` object (such as `description`)
+ * override those of the copied element.
+ * A `$ref` to an element which contains it (directly or through other `$ref` objects)
+ * would never end, so it is left in place and listed in `recursive`.
+ * `$ref` objects whose JSON Pointer does not exist are also left in place.
+ * @param api a resolved API document; it is not modified
+ * @param inlined called for each replaced `$ref`
+ * @param locate finds the element that a `$ref` refers to, such as a schema `$id` or anchor;
+ * by default, only local JSON Pointers are followed
+ * @returns a new document and the recursive references
+ */
+export function dereference(api: ApiObject, inlined?: InlineObserver, locate?: RefLocator): Dereferenced {
+  const recursive: RecursiveRef[] = [];
+  const locateRef = locate ?? pointerLocator(api);
+
+  /**
+   * @param node an element of the original document
+   * @param path where the copy of `node` goes in the dereferenced document
+   * @param origin the path to `node` in the original document
+   * @param expanding the JSON Pointers of the elements being copied for enclosing `$ref` objects
+   */
+  const expand = (node: ApiObject, path: JsonKey[], origin: JsonKey[], expanding: string[]): ApiObject => {
+    if (Array.isArray(node)) {
+      return node.map((item, index) => expand(item, [...path, index], [...origin, index], expanding));
+    }
+    if (node === null || typeof node !== 'object') {
+      return node;
+    }
+    if (isRef(node)) {
+      const ref = (node as RefObject).$ref;
+      const targetPath = locateRef(ref, origin);
+      if (targetPath) {
+        const targetPointer = JsonNavigation.asFragment(targetPath);
+        const enclosing = [...expanding, JsonNavigation.asFragment(origin)];
+        if (enclosing.some((pointer) => within(pointer, targetPointer))) {
+          recursive.push({ ref, path });
+        } else {
+          const target = targetPath.reduce((item, key) => item[key], api);
+          const copy = expand(target, path, targetPath, enclosing);
+          inlined?.(path, targetPath);
+          const siblings = Object.keys(node).filter((key) => key !== '$ref');
+          if (siblings.length === 0 || copy === null || typeof copy !== 'object' || Array.isArray(copy)) {
+            return copy;
+          }
+          const merged = { ...copy };
+          siblings.forEach((key) => (merged[key] = expand(node[key], [...path, key], [...origin, key], expanding)));
+          return merged;
+        }
+      }
+    }
+    const copy = {};
+    Object.keys(node).forEach((key) => (copy[key] = expand(node[key], [...path, key], [...origin, key], expanding)));
+    return copy;
+  };
+
+  return { api: expand(api, [], [], []), recursive };
+}
@@ -0,0 +1,134 @@
+/**
+ * Diagnostics report problems found while resolving an API document.
+ * The resolver collects diagnostics rather than stopping at the first problem.
+ */
+
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+
+import type { ApiRefResolution } from './ApiRefResolver';
+
+/**
+ * How serious a diagnostic is. Any `error` causes `ApiRefResolver.resolve()` to fail.
+ */
+export type DiagnosticSeverity = 'error' | 'warning' | 'info';
+
+/**
+ * Identifies the kind of problem:
+ * - `load-error`: a referenced document could not be read
+ * - `parse-error`: a document is not valid YAML, JSON, JSONC or JSON5
+ * - `invalid-pointer`: a `$ref` JSON Pointer or anchor does not exist in the referenced document
+ * - `dangling-ref`: a `$ref` in the resolved document does not refer to anything
+ * - `component-conflict`: a component with the same name already exists (`conflictStrategy: 'error'`)
+ * - `recursive-ref`: a recursive `$ref` cannot be dereferenced (`recursiveRefs: 'error'`)
+ * - `resolve-error`: any other failure while resolving a `$ref`
+ */
+export type DiagnosticCode =
+  | 'load-error'
+  | 'parse-error'
+  | 'invalid-pointer'
+  | 'dangling-ref'
+  | 'component-conflict'
+  | 'recursive-ref'
+  | 'resolve-error';
+
+export interface Diagnostic {
+  code: DiagnosticCode;
+  severity: DiagnosticSeverity;
+  message: string;
+  /** The `$ref` string that caused the problem */
+  ref?: string;
+  /**
+   * The URL of the document where the problem is reported: the document containing
+   * the `$ref`, or for a `parse-error`, the document that could not be parsed.
+   */
+  document?: string;
+  /** The JSON Pointer to the `$ref` object within `document` */
+  pointer?: string;
+  /** The 1-based line within `document`, if known */
+  line?: number;
+  /** The 1-based column within `document`, if known */
+  column?: number;
+  /** The URL the `$ref` resolved to */
+  targetUrl?: string;
+}
+
+/**
+ * An error with a diagnostic code, thrown while resolving a single `$ref`.
+ * `details` override the diagnostic fields derived from the `$ref` location.
+ */
+export class DiagnosticError extends Error {
+  readonly code: DiagnosticCode;
+  readonly details: Partial<Diagnostic>;
+
+  constructor(code: DiagnosticCode, message: string, details: Partial<Diagnostic> = {}) {
+    super(message);
+    this.name = 'DiagnosticError';
+    this.code = code;
+    this.details = details;
+  }
+}
+
+/**
+ * The error thrown by `ApiRefResolver.resolve()` when there are `error` diagnostics.
+ * The message lists all the errors.
+ */
+export class ResolutionError extends Error {
+  /** All the diagnostics, including warnings */
+  readonly diagnostics: Diagnostic[];
+  /** The (partial) resolution, with unresolvable `$ref` objects left as-is */
+  readonly resolution?: ApiRefResolution;
+
+  constructor(diagnostics: Diagnostic[], resolution?: ApiRefResolution) {
+    super(
+      diagnostics
+        .filter((diagnostic) => diagnostic.severity === 'error')
+        .map((diagnostic) => diagnostic.message)
+        .join('\n'),
+    );
+    this.name = 'ResolutionError';
+    this.diagnostics = diagnostics;
+    this.resolution = resolution;
+  }
+}
+
+/**
+ * Format a diagnostic in a compiler-like `file:line:column: severity code: message` format.
+ * `file:` URLs are shown as paths relative to the current directory.
+ * @param diagnostic the diagnostic
+ * @returns the formatted diagnostic
+ */
+export function formatDiagnostic(diagnostic: Diagnostic): string {
+  let location = 'api-ref-resolver';
+  if (diagnostic.document) {
+    location = displayUrl(diagnostic.document);
+    if (diagnostic.line) {
+      location = `${location}:${diagnostic.line}:${diagnostic.column ?? 1}`;
+    }
+  }
+  return `${location}: ${diagnostic.severity} ${diagnostic.code}: ${diagnostic.message}`;
+}
+
+/**
+ * Shorten a URL for display: `file:` URLs are shown as paths relative to the
+ * current directory (with any fragment); other URLs are shown as-is.
+ * @param href a URL
+ * @returns the display form of the URL
+ */
+export function displayUrl(href: string): string {
+  if (!href.startsWith('file:')) {
+    return href;
+  }
+  const hashIndex = href.indexOf('#');
+  const fragment = hashIndex >= 0 ? href.substring(hashIndex) : '';
+  const filePath = fileURLToPath(hashIndex >= 0 ? href.substring(0, hashIndex) : href);
+  return `${path.relative(process.cwd(), filePath)}${fragment}`;
+}
+
+/**
+ * @param diagnostics a list of diagnostics
+ * @returns `true` if any diagnostic is an error
+ */
+export function hasErrors(diagnostics: Diagnostic[]): boolean {
+  return diagnostics.some((diagnostic) => diagnostic.severity === 'error');
+}
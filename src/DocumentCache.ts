@@ -0,0 +1,109 @@
+/**
+ * An in-memory cache of parsed API documents which can be shared by several
+ * resolver runs, so that re-resolving (such as in `--watch` mode)
+ * only reads the documents that changed.
+ */
+
+import { URL } from 'url';
+
+import * as v8 from 'v8';
+
+import type { ApiObject } from './ApiRefResolver';
+import type { PositionIndex } from './SourceMap';
+
+/**
+ * A parsed document, as it was read before the resolver changed it
+ */
+export interface CachedDocument {
+  api: ApiObject;
+  positions: PositionIndex;
+  /** The text of the document, if it is YAML */
+  text?: string;
+}
+
+export class DocumentCache {
+  private documents: Map<string, CachedDocument> = new Map();
+
+  /** The documents being read, so that resolvers running at the same time read each one once */
+  private loading: Map<string, Promise<CachedDocument>> = new Map();
+
+  /**
+   * @param url the URL of a document
+   * @returns a copy of the cached document (which the caller may modify),
+   * or `undefined` if it is not in the cache
+   */
+  public get(url: URL): CachedDocument | undefined {
+    const document = this.documents.get(DocumentCache.key(url));
+    return document ? { ...document, api: v8.deserialize(v8.serialize(document.api)) } : undefined;
+  }
+
+  /**
+   * Store a copy of a parsed document
+   * @param url the URL the document was read from
+   * @param document the parsed document
+   */
+  public set(url: URL, document: CachedDocument) {
+    this.documents.set(DocumentCache.key(url), { ...document, api: v8.deserialize(v8.serialize(document.api)) });
+  }
+
+  /**
+   * Get a document, reading it if it is not in the cache. If it is already being read
+   * for another resolver, wait for that instead of reading it again.
+   * @param url the URL of a document
+   * @param load reads and parses the document
+   * @returns the document (which the caller may modify)
+   * @throws the error from `load`, to every caller waiting for it
+   */
+  public async load(url: URL, load: () => Promise<CachedDocument>): Promise<CachedDocument> {
+    const cached = this.get(url);
+    if (cached) {
+      return cached;
+    }
+    const key = DocumentCache.key(url);
+    const loading = this.loading.get(key);
+    if (loading) {
+      await loading;
+      return this.get(url) ?? this.load(url, load);
+    }
+    const loaded = load();
+    this.loading.set(key, loaded);
+    try {
+      const document = await loaded;
+      this.set(url, document);
+      return document;
+    } finally {
+      this.loading.delete(key);
+    }
+  }
+
+  /**
+   * Remove a document so that it is read again the next time it is needed
+   * @param url the URL of a document
+   * @returns `true` if the document was in the cache
+   */
+  public invalidate(url: URL): boolean {
+    this.loading.delete(DocumentCache.key(url));
+    return this.documents.delete(DocumentCache.key(url));
+  }
+
+  /**
+   * Remove all documents
+   */
+  public clear() {
+    this.documents.clear();
+    this.loading.clear();
+  }
+
+  /**
+   * @returns the URLs of the cached documents
+   */
+  public urls(): string[] {
+    return [...this.documents.keys()];
+  }
+
+  private static key(url: URL): string {
+    const key = new URL(url.href);
+    key.hash = '';
+    return key.href;
+  }
+}
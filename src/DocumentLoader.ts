@@ -0,0 +1,280 @@
+/**
+ * Document loaders read the text of an API document from a URL.
+ * ApiRefResolver selects a loader by the URL scheme (`file`, `http`, `https`, ...).
+ * Additional loaders may be registered with `ApiRefOptions.loaders`.
+ */
+
+import * as fs from 'fs';
+import * as http from 'http';
+import * as https from 'https';
+import { fileURLToPath, URL } from 'url';
+
+import * as bl from 'bl';
+
+import type { ApiRefOptions } from './ApiRefResolver';
+import { RemoteCache } from './RemoteCache';
+
+/**
+ * The text of a document and, if known, its content type
+ */
+export interface LoadedDocument {
+  text: string;
+  /** The `Content-Type` of the response, such as `application/json`; it selects the parser */
+  contentType?: string;
+}
+
+/**
+ * Function signature for a document loader.
+ * The `url` may contain a fragment; loaders should ignore it.
+ * @param url the URL of the API document to read
+ * @param options the options passed to `ApiRefResolver.resolve()`
+ * @returns the text of the API document, or the text and its content type
+ */
+export type DocumentLoader = (url: URL, options: ApiRefOptions) => Promise<string | LoadedDocument>;
+
+/**
+ * Maps a URL scheme, such as `file`, `https` or `mem`, to the
+ * `DocumentLoader` that reads documents with that scheme.
+ * Keys may be given with or without the trailing `:`.
+ */
+export interface DocumentLoaders {
+  [scheme: string]: DocumentLoader;
+}
+
+/**
+ * @param url a URL
+ * @returns a copy of the URL without the `#` fragment
+ */
+function withoutFragment(url: URL): URL {
+  const copy = new URL(url.href);
+  copy.hash = '';
+  return copy;
+}
+
+/**
+ * Read an API document from a file: URL
+ * @param url the URL where the API is located
+ */
+export async function readFromFile(url: URL): Promise<string> {
+  const filePath = fileURLToPath(withoutFragment(url));
+  const text = fs.readFileSync(filePath, { encoding: 'utf8' });
+  return text;
+}
+
+/**
+ * The maximum number of HTTP redirects followed by `readFromUrl`
+ */
+export const MAX_REDIRECTS = 10;
+
+/**
+ * The default HTTP request timeout, in milliseconds
+ */
+export const DEFAULT_TIMEOUT = 30000;
+
+/**
+ * The response to an HTTP GET request
+ */
+interface HttpResponse {
+  statusCode: number;
+  /** The response body; empty for a `304 Not Modified` response */
+  text: string;
+  etag?: string;
+  lastModified?: string;
+  contentType?: string;
+}
+
+/**
+ * Read an API document from an http: or https: URL.
+ * This is {@link readDocumentFromUrl} without the content type.
+ * @param url the URL where the API is located
+ * @param options the resolver options
+ */
+export async function readFromUrl(url: URL, options: ApiRefOptions = {}): Promise<string> {
+  return (await readDocumentFromUrl(url, options)).text;
+}
+
+/**
+ * Read an API document, and its content type, from an http: or https: URL.
+ * Redirects are followed (up to `MAX_REDIRECTS`); any other non-2xx
+ * response is an error.
+ *
+ * If `options.cacheDir` is set, documents are stored in a {@link RemoteCache}, keyed by
+ * their URL and `options.requestHeaders`, and cached copies are revalidated with their `ETag`/`Last-Modified` headers.
+ * If the server cannot be reached, the cached copy is used.
+ * If `options.offline` is true, only cached copies are used and the network is not accessed.
+ * @param url the URL where the API is located
+ * @param options `options.requestHeaders` are added to the request and
+ * `options.timeout` limits the total time to read the response, including redirects.
+ */
+export async function readDocumentFromUrl(url: URL, options: ApiRefOptions = {}): Promise<LoadedDocument> {
+  const documentUrl = withoutFragment(url);
+  if (options.offline && !options.cacheDir) {
+    throw new Error(`Cannot read ${documentUrl.href} in offline mode without a cache directory`);
+  }
+  const cache = options.cacheDir ? new RemoteCache(options.cacheDir) : undefined;
+  const cached = cache?.get(documentUrl, options.requestHeaders);
+  if (options.offline) {
+    if (!cached) {
+      throw new Error(`Offline mode: ${documentUrl.href} is not in the cache ${options.cacheDir}`);
+    }
+    return { text: cached.text, contentType: cached.contentType };
+  }
+  const conditionalHeaders = {};
+  if (cached?.etag) {
+    conditionalHeaders['if-none-match'] = cached.etag;
+  }
+  if (cached?.lastModified) {
+    conditionalHeaders['if-modified-since'] = cached.lastModified;
+  }
+  let response: HttpResponse;
+  try {
+    const deadline = Date.now() + (options.timeout ?? DEFAULT_TIMEOUT);
+    response = await httpGet(documentUrl, options, conditionalHeaders, documentUrl.origin, 0, deadline);
+  } catch (ex) {
+    if (cached && !(ex instanceof HttpStatusError)) {
+      return { text: cached.text, contentType: cached.contentType };
+    }
+    throw ex;
+  }
+  if (response.statusCode === 304 && cached) {
+    cache.put({ ...cached, fetchedAt: new Date().toISOString() }, options.requestHeaders);
+    return { text: cached.text, contentType: cached.contentType };
+  }
+  cache?.put(
+    {
+      url: documentUrl.href,
+      etag: response.etag,
+      lastModified: response.lastModified,
+      contentType: response.contentType,
+      fetchedAt: new Date().toISOString(),
+      text: response.text,
+    },
+    options.requestHeaders,
+  );
+  return { text: response.text, contentType: response.contentType };
+}
+
+/**
+ * Error for an HTTP response with an unexpected status code
+ */
+class HttpStatusError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'HttpStatusError';
+  }
+}
+
+/**
+ * Perform an HTTP GET request, following redirects
+ * @param url the URL to fetch
+ * @param options the resolver options
+ * @param conditionalHeaders `if-none-match`/`if-modified-since` headers for revalidating a cached copy
+ * @param origin the origin of the original request. `options.requestHeaders` are
+ * only sent to this origin so that credentials are not leaked via a redirect
+ * to another host.
+ * @param redirects the number of redirects followed so far
+ * @param deadline the time (as from `Date.now()`) by which the whole response, after any
+ * redirects, must be read; the request is aborted then, even if data is still arriving
+ * @returns the response
+ */
+function httpGet(
+  url: URL,
+  options: ApiRefOptions,
+  conditionalHeaders: { [name: string]: string },
+  origin: string,
+  redirects: number,
+  deadline: number,
+): Promise<HttpResponse> {
+  return new Promise((settleResolve, settleReject) => {
+    const client = url.protocol === 'http:' ? http : https;
+    const timeout = options.timeout ?? DEFAULT_TIMEOUT;
+    const headers = {
+      accept: 'application/yaml, application/json;q=0.9, */*;q=0.8',
+      ...conditionalHeaders,
+      ...(url.origin === origin ? options.requestHeaders : {}),
+    };
+    const timer = setTimeout(() => {
+      request.destroy(new Error(`Timed out after ${timeout}ms fetching ${url.href}`));
+    }, Math.max(0, deadline - Date.now()));
+    const resolve = (response: HttpResponse) => {
+      clearTimeout(timer);
+      settleResolve(response);
+    };
+    const reject = (error: Error) => {
+      clearTimeout(timer);
+      settleReject(error);
+    };
+    const request = client.get(url, { headers }, (response) => {
+      const statusCode = response.statusCode;
+      const location = response.headers.location;
+      if (statusCode === 304 && Object.keys(conditionalHeaders).length > 0) {
+        response.resume();
+        resolve({ statusCode, text: '' });
+        return;
+      }
+      if (statusCode >= 300 && statusCode < 400 && location) {
+        response.resume();
+        clearTimeout(timer);
+        if (redirects >= MAX_REDIRECTS) {
+          reject(new HttpStatusError(`Too many redirects (${MAX_REDIRECTS}) fetching ${url.href}`));
+          return;
+        }
+        httpGet(new URL(location, url), options, conditionalHeaders, origin, redirects + 1, deadline).then(
+          settleResolve,
+          settleReject,
+        );
+        return;
+      }
+      if (statusCode < 200 || statusCode >= 300) {
+        response.resume();
+        reject(new HttpStatusError(`HTTP ${statusCode} ${response.statusMessage} fetching ${url.href}`));
+        return;
+      }
+      response.setEncoding('utf8');
+      response.pipe(
+        bl((err, data) => {
+          if (err) {
+            reject(err);
+            return;
+          }
+          resolve({
+            statusCode,
+            text: data.toString(),
+            etag: response.headers.etag,
+            lastModified: response.headers['last-modified'],
+            contentType: response.headers['content-type'],
+          });
+        }),
+      );
+    });
+    request.on('error', reject);
+  });
+}
+
+/**
+ * The built-in loaders, used for any scheme not overridden in `ApiRefOptions.loaders`
+ */
+export const defaultLoaders: DocumentLoaders = {
+  file: readFromFile,
+  http: readDocumentFromUrl,
+  https: readDocumentFromUrl,
+};
+
+/**
+ * Find the loader for a URL.
+ * @param url the URL of an API document
+ * @param loaders additional loaders; these take precedence over the `defaultLoaders`
+ * @returns the loader registered for the scheme of `url`, or `undefined` if there is none
+ */
+export function loaderFor(url: URL, loaders?: DocumentLoaders): DocumentLoader | undefined {
+  const scheme = url.protocol.replace(/:$/, '');
+  return loaders?.[scheme] ?? loaders?.[`${scheme}:`] ?? defaultLoaders[scheme];
+}
+
+/**
+ * @param loaded the result of a {@link DocumentLoader}
+ * @returns the text of the document, and its content type if known
+ */
+export function asLoadedDocument(loaded: string | LoadedDocument): LoadedDocument {
+  return typeof loaded === 'string' ? { text: loaded } : loaded;
+}
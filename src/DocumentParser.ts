@@ -0,0 +1,200 @@
+/**
+ * Parses the text of API documents: YAML, JSON, JSON with comments (JSONC) and JSON5.
+ * The format is chosen from the file extension of the document URL, or the
+ * content type of the response it was read from.
+ */
+
+import { URL } from 'url';
+
+import * as JSON5 from 'json5';
+import { parseTree, printParseErrorCode } from 'jsonc-parser';
+import type { Node as JsonNode, ParseError } from 'jsonc-parser';
+
+import type { ApiObject } from './ApiRefResolver';
+import { DiagnosticError } from './Diagnostics';
+import { JsonNavigation, JsonKey } from './JsonNavigation';
+import { parseYaml } from './SourceMap';
+import type { PositionIndex, SourcePosition } from './SourceMap';
+
+/**
+ * A format of API document text:
+ * - `yaml`: YAML 1.2 with the JSON schema (which also reads most JSON)
+ * - `json`: strict JSON
+ * - `jsonc`: JSON with `//` and `/* *\/` comments and trailing commas
+ * - `json5`: [JSON5](https://json5.org/)
+ */
+export type DocumentFormat = 'yaml' | 'json' | 'jsonc' | 'json5';
+
+/**
+ * @param url a document URL
+ * @returns the format for the file extension of the URL path, or `undefined` if it is not known
+ */
+function extensionFormat(url: URL): DocumentFormat | undefined {
+  const extension = /\.([a-z0-9]+)$/i.exec(url.pathname)?.[1].toLowerCase();
+  switch (extension) {
+    case 'json':
+    case 'jsonc':
+    case 'json5':
+      return extension;
+    case 'yaml':
+    case 'yml':
+      return 'yaml';
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * @param contentType a `Content-Type` header value, such as `application/json; charset=utf-8`
+ * @returns the format for the media type, or `undefined` if it is not known
+ */
+function contentTypeFormat(contentType: string): DocumentFormat | undefined {
+  const mediaType = contentType.split(';')[0].trim().toLowerCase();
+  if (mediaType === 'application/json5') {
+    return 'json5';
+  }
+  if (mediaType === 'application/json' || mediaType.endsWith('+json')) {
+    return 'json';
+  }
+  if (/^(application|text)\/(x-)?yaml$/.test(mediaType) || mediaType.endsWith('+yaml')) {
+    return 'yaml';
+  }
+  return undefined;
+}
+
+/**
+ * Choose the parser for a document. A `.jsonc` or `.json5` extension is used even if
+ * the server reports `application/json`; otherwise a JSON or YAML content type takes
+ * precedence over the extension. Documents with neither are parsed as YAML.
+ * @param url the URL of the document
+ * @param contentType the content type of the response the document was read from, if any
+ * @returns the document format
+ */
+export function documentFormatFor(url: URL, contentType?: string): DocumentFormat {
+  const fromExtension = extensionFormat(url);
+  if (fromExtension === 'jsonc' || fromExtension === 'json5') {
+    return fromExtension;
+  }
+  return (contentType ? contentTypeFormat(contentType) : undefined) ?? fromExtension ?? 'yaml';
+}
+
+/**
+ * Parse the text of a document and record the position of each element
+ * @param text the document text
+ * @param documentUrl the URL of the document, without a fragment
+ * @param format the document format
+ * @returns the parsed document and the position index of its elements.
+ * JSON5 documents have no positions.
+ * @throws DiagnosticError a `parse-error`, with the line and column of the syntax error if known
+ */
+export function parseDocument(
+  text: string,
+  documentUrl: string,
+  format: DocumentFormat,
+): { api: ApiObject; positions: PositionIndex } {
+  switch (format) {
+    case 'json':
+    case 'jsonc':
+      return parseJson(text, documentUrl, format === 'jsonc');
+    case 'json5':
+      try {
+        return { api: JSON5.parse(text), positions: new Map() };
+      } catch (ex) {
+        const reason = String(ex.message)
+          .replace(/^JSON5: /, '')
+          .replace(/ at \d+:\d+$/, '');
+        throw parseError(documentUrl, `invalid JSON5: ${reason}`, ex.lineNumber, ex.columnNumber);
+      }
+    default:
+      try {
+        return parseYaml(text, documentUrl);
+      } catch (ex) {
+        const mark = ex.mark;
+        throw parseError(
+          documentUrl,
+          ex.reason ?? ex.message,
+          mark ? mark.line + 1 : undefined,
+          mark ? mark.column + 1 : undefined,
+        );
+      }
+  }
+}
+
+/**
+ * @param documentUrl the URL of the document
+ * @param reason what is wrong
+ * @param line the 1-based line of the error, if known
+ * @param column the 1-based column of the error, if known
+ * @returns a `parse-error`
+ */
+function parseError(documentUrl: string, reason: string, line?: number, column?: number): DiagnosticError {
+  return new DiagnosticError('parse-error', `Cannot parse ${documentUrl}: ${reason}`, {
+    document: documentUrl,
+    pointer: undefined,
+    line,
+    column,
+  });
+}
+
+/**
+ * Parse a JSON or JSONC document and record the position of each element
+ * @param text the document text
+ * @param documentUrl the URL of the document
+ * @param comments if true, allow comments and trailing commas (JSONC)
+ * @returns the parsed document and the position index of its elements
+ */
+function parseJson(text: string, documentUrl: string, comments: boolean): { api: ApiObject; positions: PositionIndex } {
+  const errors: ParseError[] = [];
+  const tree = parseTree(text, errors, { disallowComments: !comments, allowTrailingComma: comments });
+  const lineStarts = [0];
+  for (let index = text.indexOf('\n'); index >= 0; index = text.indexOf('\n', index + 1)) {
+    lineStarts.push(index + 1);
+  }
+  const position = (offset: number): SourcePosition => {
+    // binary search for the last line which starts at or before the offset
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
+      if (lineStarts[middle] <= offset) {
+        low = middle;
+      } else {
+        high = middle - 1;
+      }
+    }
+    return { line: low + 1, column: offset - lineStarts[low] + 1 };
+  };
+  if (errors.length > 0 || tree === undefined) {
+    const error = errors[0];
+    const at = error ? position(error.offset) : { line: undefined, column: undefined };
+    const reason = error
+      ? printParseErrorCode(error.error)
+          .replace(/([a-z])([A-Z])/g, '$1 $2')
+          .toLowerCase()
+      : 'empty';
+    throw parseError(documentUrl, `invalid ${comments ? 'JSONC' : 'JSON'}: ${reason}`, at.line, at.column);
+  }
+  const positions: PositionIndex = new Map();
+  positions.set('', position(tree.offset));
+  // jsonc-parser's getNodeValue() creates objects without a prototype, so build the value here
+  const valueOf = (node: JsonNode, keys: JsonKey[]): ApiObject => {
+    if (node.type === 'object') {
+      const value = {};
+      node.children.forEach((property) => {
+        const path = [...keys, property.children[0].value];
+        positions.set(JsonNavigation.asFragment(path), position(property.offset));
+        value[property.children[0].value] = valueOf(property.children[1], path);
+      });
+      return value;
+    }
+    if (node.type === 'array') {
+      return node.children.map((child, index) => {
+        const path = [...keys, index];
+        positions.set(JsonNavigation.asFragment(path), position(child.offset));
+        return valueOf(child, path);
+      });
+    }
+    return node.value;
+  };
+  return { api: valueOf(tree, []), positions };
+}
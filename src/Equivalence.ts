@@ -0,0 +1,80 @@
+/**
+ * Structural comparison of API elements, used to detect components
+ * which are identical even though they were read from different documents.
+ */
+
+import type { JsonItem } from './JsonNavigation';
+import { isRef } from './RefVisitor';
+import type { RefObject } from './RefVisitor';
+
+/**
+ * Function signature for looking up the target of a `$ref`
+ * @param ref a `$ref` string
+ * @returns the item the `$ref` refers to, or `undefined` if it is not available
+ */
+export type RefLookup = (ref: string) => JsonItem | undefined;
+
+/**
+ * Test if two API elements are equivalent: they have the same content, ignoring
+ * the order of object keys and the `ignoredKeys` (such as resolver markers).
+ * Two `$ref` objects with different `$ref` strings are equivalent if the items they
+ * refer to are equivalent; recursive references are assumed to be equivalent
+ * while they are being compared.
+ * @param a an API element
+ * @param b another API element
+ * @param ignoredKeys object keys which are not compared
+ * @param lookup looks up the targets of `$ref` strings
+ * @returns `true` iff `a` and `b` are equivalent
+ */
+export function equivalent(a: JsonItem, b: JsonItem, ignoredKeys: string[], lookup: RefLookup): boolean {
+  const assumed = new Set<string>();
+
+  const sameKeys = (x: object, y: object, skip: string[]): boolean => {
+    const keep = (key: string) => !ignoredKeys.includes(key) && !skip.includes(key);
+    const xKeys = Object.keys(x).filter(keep).sort();
+    const yKeys = Object.keys(y).filter(keep).sort();
+    return (
+      xKeys.length === yKeys.length &&
+      xKeys.every((key, index) => key === yKeys[index] && same(x[key] as JsonItem, y[key] as JsonItem))
+    );
+  };
+
+  const sameRefTargets = (xRef: string, yRef: string): boolean => {
+    const pair = JSON.stringify([xRef, yRef]);
+    if (assumed.has(pair)) {
+      return true;
+    }
+    assumed.add(pair);
+    const xTarget = lookup(xRef);
+    const yTarget = lookup(yRef);
+    return xTarget !== undefined && yTarget !== undefined && same(xTarget, yTarget);
+  };
+
+  const same = (x: JsonItem, y: JsonItem): boolean => {
+    if (x === y) {
+      return true;
+    }
+    if (x === null || y === null || typeof x !== 'object' || typeof y !== 'object') {
+      return false;
+    }
+    if (Array.isArray(x) || Array.isArray(y)) {
+      return (
+        Array.isArray(x) &&
+        Array.isArray(y) &&
+        x.length === y.length &&
+        (x as JsonItem[]).every((item, index) => same(item, y[index]))
+      );
+    }
+    if (isRef(x) && isRef(y)) {
+      const xRef = (x as RefObject).$ref;
+      const yRef = (y as RefObject).$ref;
+      if (xRef !== yRef && !sameRefTargets(xRef, yRef)) {
+        return false;
+      }
+      return sameKeys(x, y, ['$ref']);
+    }
+    return sameKeys(x, y, []);
+  };
+
+  return same(a, b);
+}
@@ -0,0 +1,93 @@
+/**
+ * Support for hoisting referenced fragments of other documents into
+ * `components`: inferring the components section and naming the component.
+ */
+
+import type { JsonKey } from './JsonNavigation';
+
+/** Keys whose members are schemas, such as `properties/name` */
+const SCHEMA_MAP_KEYS = ['properties', 'patternProperties', '$defs', 'definitions', 'dependentSchemas'];
+
+/** Keys whose value, or whose items, are schemas */
+const SCHEMA_KEYS = [
+  'schema',
+  'payload',
+  'items',
+  'additionalProperties',
+  'allOf',
+  'anyOf',
+  'oneOf',
+  'not',
+  'if',
+  'then',
+  'else',
+  'prefixItems',
+  'contains',
+];
+
+/** Map keys (or array keys) whose members belong in a components section */
+const SECTION_MAP_KEYS = {
+  parameters: 'parameters',
+  responses: 'responses',
+  headers: 'headers',
+  examples: 'examples',
+  links: 'links',
+  callbacks: 'callbacks',
+  messages: 'messages',
+  securitySchemes: 'securitySchemes',
+};
+
+/**
+ * Infer the components section for an element from where it is in an OpenAPI or AsyncAPI document:
+ * a `schema` (or any element within a schema) belongs in `schemas`, an item of `parameters` belongs
+ * in `parameters`, a `requestBody` belongs in `requestBodies`, and so on.
+ * @param path the path to the element
+ * @returns the section name, or `undefined` if it cannot be inferred
+ */
+export function inferComponentSection(path: JsonKey[]): string | undefined {
+  const last = path[path.length - 1];
+  const parent = path[path.length - 2];
+  if (path.length >= 3 && path[0] === 'components') {
+    if (path.length === 3 || path[1] === 'schemas') {
+      return String(path[1]);
+    }
+    return inferComponentSection(path.slice(2));
+  }
+  if (typeof parent === 'string' && SCHEMA_MAP_KEYS.includes(parent)) {
+    return 'schemas';
+  }
+  if (typeof last === 'string' && SCHEMA_KEYS.includes(last)) {
+    return 'schemas';
+  }
+  if (typeof last === 'number' && typeof parent === 'string' && SCHEMA_KEYS.includes(parent)) {
+    return 'schemas';
+  }
+  if (last === 'requestBody') {
+    return 'requestBodies';
+  }
+  if (last === 'message') {
+    return 'messages';
+  }
+  if (typeof parent === 'string' && SECTION_MAP_KEYS.hasOwnProperty(parent)) {
+    return SECTION_MAP_KEYS[parent];
+  }
+  return undefined;
+}
+
+/**
+ * Generate a component name from the path to the element in its source document,
+ * such as `healthGetResponses200Schema` for `/paths/~1health/get/responses/200/content/application~1json/schema`.
+ * The `paths`, `content` and media type keys are omitted.
+ * @param path the path to the element
+ * @returns a component name which is a valid component key
+ */
+export function componentNameFor(path: JsonKey[]): string {
+  const words = path
+    .filter((key, index) => key !== 'paths' && key !== 'content' && path[index - 1] !== 'content')
+    .flatMap((key) => String(key).split(/[^A-Za-z0-9]+/))
+    .filter((word) => word.length > 0);
+  const name = words
+    .map((word, index) => (index === 0 ? word : `${word[0].toUpperCase()}${word.substring(1)}`))
+    .join('');
+  return name || 'fragment';
+}
@@ -8,6 +8,7 @@ import { strict as assert } from 'assert';
 import * as jsonPointer from 'json-pointer';
 import type { Node } from './RefVisitor';
 import { ApiRefResolver } from './ApiRefResolver';
+import { DiagnosticError } from './Diagnostics';
 
 /**
  * Represents a JSON object or JSON array
@@ -70,7 +71,12 @@ export class JsonNavigation {
       return undefined;
     }
     const noHash = fragment.substring(1);
-    const val = jsonPointer(this.document, noHash);
+    let val: JsonItem;
+    try {
+      val = jsonPointer(this.document, noHash);
+    } catch (ex) {
+      throw new DiagnosticError('invalid-pointer', `No element at JSON Pointer ${fragment} (${ex.message})`);
+    }
     // To be safe, we clone objects so we do not end up with YAML &ref_0/*ref_0
     const clone = ApiRefResolver.deepClone(val);
     return clone;
@@ -87,6 +93,23 @@ export class JsonNavigation {
     return new JsonNavigation(document).itemAtFragment(fragment);
   }
 
+  /**
+   * Test if a JSON Pointer fragment refers to an item in a document.
+   * The fragment may be URI-encoded, such as `#/paths/~1things~1%7BthingId%7D`.
+   * @param document A JSON object or array
+   * @param fragment a URL fragment such as `'#/components/schemas/mySchema'`
+   * @returns `true` if there is an item at `fragment`
+   */
+  public static hasItemAtFragment(document: JsonNode, fragment: string): boolean {
+    let pointer = fragment.substring(1);
+    try {
+      pointer = decodeURIComponent(pointer);
+    } catch (ex) {
+      // not URI-encoded; use the fragment as-is
+    }
+    return jsonPointer.has(document, pointer);
+  }
+
   /**
    * Convert the current instance's navigation path to a JSON Pointer URL fragment.
    * For example, if the current path is `[ 'paths', '/things', 'post', 'responses', 1]`,
@@ -112,12 +135,18 @@ export class JsonNavigation {
 
   /**
    * Parse a URL fragment as an array of keys
-   * @param fragment the URL fragment
+   * @param fragment the URL fragment, which may be URI-encoded,
    * such as `#/paths/~1things/post/responses/1`.
    * @return An array of keys, such as `[ 'paths', '/things', 'post', 'responses', 1]`
    */
   public static asKeys(fragment: string): JsonKey[] {
-    const keys = jsonPointer.parse(fragment.substring(1)).map((key) => {
+    let pointer = fragment.substring(1);
+    try {
+      pointer = decodeURIComponent(pointer);
+    } catch (ex) {
+      // not URI-encoded; use the fragment as-is
+    }
+    const keys = jsonPointer.parse(pointer).map((key) => {
       if (/^\d+$/.exec(key)) {
         return parseInt(key);
       }
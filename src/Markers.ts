@@ -0,0 +1,124 @@
+/**
+ * Options for the markers which record where each resolved element came from,
+ * such as `x-resolved-from` and `x-resolved-at`.
+ */
+
+import type { ApiObject } from './ApiRefResolver';
+import { JsonNavigation } from './JsonNavigation';
+import type { JsonItem, JsonKey } from './JsonNavigation';
+import { isRef } from './RefVisitor';
+
+/** The default names of the markers that the resolver adds */
+export const RESOLVER_MARKERS = ['x-resolved-from', 'x-resolved-at'];
+
+/**
+ * A kind of marker:
+ * - `resolvedFrom`: the URL the element was resolved from
+ * - `resolvedAt`: when the document was resolved (only on the resolved document itself)
+ * - `provenance`: the markers returned by the `provenance` callback
+ */
+export type MarkerKind = 'resolvedFrom' | 'resolvedAt' | 'provenance';
+
+/**
+ * A resolved element which may be marked
+ */
+export interface MarkerContext {
+  /** The element */
+  item: JsonItem;
+  /**
+   * The absolute URL the element was resolved from, with a JSON Pointer fragment
+   * if it is an element of a document, such as `file:///apis/lib.yaml#/components/schemas/thing`
+   */
+  source: string;
+  /**
+   * The path to the `$ref` object which the element was resolved for, in the resolved document;
+   * `undefined` for the resolved document itself and for hoisted fragments
+   */
+  refPath?: JsonKey[];
+  /** `true` for the resolved document itself */
+  root: boolean;
+}
+
+/**
+ * Function signature for deciding whether an element gets markers
+ * @param context the element
+ * @returns `true` to add markers to the element
+ */
+export type MarkerPlacement = (context: MarkerContext) => boolean;
+
+/**
+ * Function signature for additional provenance markers, such as the git commit
+ * or the hash of the source file
+ * @param context the element
+ * @returns the markers to add, such as `{ 'x-source-commit': '6e8d1f2' }`, or `undefined` for none
+ */
+export type ProvenanceProvider = (context: MarkerContext) => { [marker: string]: JsonItem } | undefined;
+
+export interface MarkerOptions {
+  /** The name of the `resolvedFrom` marker. The default is `x-resolved-from` */
+  resolvedFrom?: string;
+  /** The name of the `resolvedAt` marker. The default is `x-resolved-at` */
+  resolvedAt?: string;
+  /** The kinds of markers to add. The default is all of them. */
+  emit?: MarkerKind[];
+  /** Adds `provenance` markers */
+  provenance?: ProvenanceProvider;
+  /** Decides which elements get markers. The default is {@link defaultMarkerPlacement} */
+  placement?: MarkerPlacement;
+}
+
+/**
+ * The default {@link MarkerPlacement}: every element except a `$ref` object which is not
+ * a schema, since OpenAPI does not allow specification extensions in Reference Objects
+ * (JSON Schema does).
+ * @param context the element
+ * @returns `true` to add markers to the element
+ */
+export function defaultMarkerPlacement(context: MarkerContext): boolean {
+  const path = context.refPath;
+  if (!isRef(context.item) || path === undefined) {
+    return true;
+  }
+  return path.length > 2 && ((path[0] === 'components' && path[1] === 'schemas') || path.includes('schema'));
+}
+
+/**
+ * Options for {@link stripMarkers}
+ */
+export interface StripOptions {
+  /** The marker names to remove. The default is {@link RESOLVER_MARKERS} */
+  markers?: string[];
+  /** Other specification extensions to remove, such as `x-internal` */
+  extensions?: string[];
+}
+
+/**
+ * Remove the resolver markers, and other specification extensions, from every element of
+ * an API document, such as one bundled elsewhere. Members of schema `properties` and
+ * `patternProperties` are property names rather than extensions, so they are kept.
+ * @param api an API document; it is modified in place
+ * @param options the markers and extensions to remove
+ * @returns the JSON Pointers of the removed members, such as `/components/schemas/thing/x-resolved-from`
+ */
+export function stripMarkers(api: ApiObject, options?: StripOptions): string[] {
+  const names = [...(options?.markers ?? RESOLVER_MARKERS), ...(options?.extensions ?? [])];
+  const removed: string[] = [];
+  const strip = (node: ApiObject, path: JsonKey[]) => {
+    if (Array.isArray(node)) {
+      node.forEach((item, index) => strip(item, [...path, index]));
+    } else if (node !== null && typeof node === 'object') {
+      const last = path[path.length - 1];
+      const isPropertyMap = (last === 'properties' || last === 'patternProperties') && path.length > 1;
+      for (const key of Object.keys(node)) {
+        if (!isPropertyMap && names.includes(key)) {
+          delete node[key];
+          removed.push(JsonNavigation.asFragment([...path, key]));
+        } else {
+          strip(node[key], [...path, key]);
+        }
+      }
+    }
+  };
+  strip(api, []);
+  return removed;
+}
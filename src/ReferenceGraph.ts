@@ -0,0 +1,247 @@
+/**
+ * The graph of `$ref` references between API documents and their components,
+ * used to find coupling between documents and reference cycles.
+ */
+
+import type { Diagnostic } from './Diagnostics';
+import { displayUrl } from './Diagnostics';
+
+/**
+ * A `$ref` found in a source document
+ */
+export interface RefSite {
+  /** The URL (without a fragment) of the document containing the `$ref` */
+  fromUrl: string;
+  /** The JSON Pointer to the `$ref` object within that document */
+  fromPointer: string;
+  /** The `$ref` string */
+  ref: string;
+  /** The URL (without a fragment) of the referenced document */
+  toUrl: string;
+  /** The JSON Pointer within the referenced document; `''` for the whole document */
+  toPointer: string;
+}
+
+/**
+ * A node of the graph: an API document, or a component within a document
+ */
+export interface GraphNode {
+  /** The document URL, with a `#/components/<section>/<name>` fragment for a component */
+  id: string;
+  /** The URL of the document */
+  document: string;
+  /** The JSON Pointer to the component, such as `/components/schemas/thing`; omitted for a document */
+  component?: string;
+}
+
+/**
+ * References from one node to another
+ */
+export interface GraphEdge {
+  from: string;
+  to: string;
+  /** The number of `$ref` objects in `from` which refer to `to` */
+  count: number;
+  /** `true` if the edge is part of a reference cycle */
+  cyclic: boolean;
+}
+
+export type GraphFormat = 'dot' | 'json' | 'mermaid';
+
+const COMPONENT_POINTER_REGEXP = /^\/components\/[^/]+\/[^/]+/;
+
+export class ReferenceGraph {
+  /** Every `$ref` found while walking the documents */
+  readonly sites: RefSite[] = [];
+  /** Documents which could not be read while building the graph */
+  readonly diagnostics: Diagnostic[] = [];
+  private documents: string[] = [];
+
+  /**
+   * Add a document, so that it is a node even if it has no references
+   * @param url the URL of the document (without a fragment)
+   */
+  public addDocument(url: string) {
+    if (!this.documents.includes(url)) {
+      this.documents.push(url);
+    }
+  }
+
+  /**
+   * Add a `$ref`
+   * @param site where the `$ref` is and what it refers to
+   */
+  public addSite(site: RefSite) {
+    this.sites.push(site);
+  }
+
+  /**
+   * The node which contains a location: the component containing the pointer, or else the document
+   * @param url a document URL
+   * @param pointer a JSON Pointer within the document
+   * @returns the node ID
+   */
+  static nodeId(url: string, pointer: string): string {
+    const match = COMPONENT_POINTER_REGEXP.exec(pointer);
+    return match ? `${url}#${match[0]}` : url;
+  }
+
+  /**
+   * @returns the documents and components, in the order they were found
+   */
+  public nodes(): GraphNode[] {
+    const nodes: GraphNode[] = [];
+    const add = (url: string, pointer: string) => {
+      const id = ReferenceGraph.nodeId(url, pointer);
+      if (!nodes.some((node) => node.id === id)) {
+        const node: GraphNode = { id, document: url };
+        if (id !== url) {
+          node.component = id.substring(url.length + 1);
+        }
+        nodes.push(node);
+      }
+    };
+    this.documents.forEach((url) => add(url, ''));
+    this.sites.forEach((site) => {
+      add(site.fromUrl, site.fromPointer);
+      add(site.toUrl, site.toPointer);
+    });
+    return nodes;
+  }
+
+  /**
+   * @returns the edges between nodes, with the number of `$ref` objects for each
+   */
+  public edges(): GraphEdge[] {
+    const edges: GraphEdge[] = [];
+    for (const site of this.sites) {
+      const from = ReferenceGraph.nodeId(site.fromUrl, site.fromPointer);
+      const to = ReferenceGraph.nodeId(site.toUrl, site.toPointer);
+      const edge = edges.find((e) => e.from === from && e.to === to);
+      if (edge) {
+        edge.count += 1;
+      } else {
+        edges.push({ from, to, count: 1, cyclic: false });
+      }
+    }
+    const cyclicNodes = this.cycles().map((cycle) => new Set(cycle));
+    edges.forEach((edge) => {
+      edge.cyclic = cyclicNodes.some((cycle) => cycle.has(edge.from) && cycle.has(edge.to));
+    });
+    return edges;
+  }
+
+  /**
+   * Find the reference cycles: the strongly connected components of the graph
+   * which have more than one node, or a node which refers to itself.
+   * @returns the node IDs of each cycle
+   */
+  public cycles(): string[][] {
+    const successors = new Map<string, string[]>();
+    this.nodes().forEach((node) => successors.set(node.id, []));
+    for (const site of this.sites) {
+      const from = ReferenceGraph.nodeId(site.fromUrl, site.fromPointer);
+      successors.get(from).push(ReferenceGraph.nodeId(site.toUrl, site.toPointer));
+    }
+
+    // Tarjan's strongly connected components algorithm
+    const index = new Map<string, number>();
+    const lowLink = new Map<string, number>();
+    const stack: string[] = [];
+    const onStack = new Set<string>();
+    const cycles: string[][] = [];
+    const connect = (id: string) => {
+      index.set(id, index.size);
+      lowLink.set(id, index.get(id));
+      stack.push(id);
+      onStack.add(id);
+      for (const next of successors.get(id)) {
+        if (!index.has(next)) {
+          connect(next);
+          lowLink.set(id, Math.min(lowLink.get(id), lowLink.get(next)));
+        } else if (onStack.has(next)) {
+          lowLink.set(id, Math.min(lowLink.get(id), index.get(next)));
+        }
+      }
+      if (lowLink.get(id) === index.get(id)) {
+        const component: string[] = [];
+        let member: string;
+        do {
+          member = stack.pop();
+          onStack.delete(member);
+          component.push(member);
+        } while (member !== id);
+        if (component.length > 1 || successors.get(id).includes(id)) {
+          cycles.push(component.reverse());
+        }
+      }
+    };
+    successors.forEach((_, id) => {
+      if (!index.has(id)) {
+        connect(id);
+      }
+    });
+    return cycles;
+  }
+
+  /**
+   * Format the graph
+   * @param format `dot` (Graphviz), `json`, or `mermaid` (a Mermaid flowchart)
+   * @returns the formatted graph. Reference cycles are highlighted in red.
+   */
+  public format(format: GraphFormat = 'dot'): string {
+    switch (format) {
+      case 'json':
+        return JSON.stringify({ nodes: this.nodes(), edges: this.edges(), cycles: this.cycles() }, null, 2);
+      case 'mermaid':
+        return this.formatMermaid();
+      case 'dot':
+        return this.formatDot();
+      default:
+        throw new Error(`Unknown graph format ${format}; use dot, json, or mermaid`);
+    }
+  }
+
+  private formatDot(): string {
+    const quote = (text: string) => JSON.stringify(text);
+    const lines = ['digraph api {', '  rankdir=LR;', '  node [shape=box];'];
+    const nodes = this.nodes();
+    nodes.forEach((node, n) => {
+      const shape = node.component ? '' : ', style=bold';
+      lines.push(`  n${n} [label=${quote(displayUrl(node.id))}${shape}];`);
+    });
+    const ids = nodes.map((node) => node.id);
+    for (const edge of this.edges()) {
+      const attributes = [`label="${edge.count}"`];
+      if (edge.cyclic) {
+        attributes.push('color=red', 'fontcolor=red');
+      }
+      lines.push(`  n${ids.indexOf(edge.from)} -> n${ids.indexOf(edge.to)} [${attributes.join(', ')}];`);
+    }
+    lines.push('}');
+    return lines.join('\n');
+  }
+
+  private formatMermaid(): string {
+    const label = (text: string) => `"${text.replace(/"/g, '#quot;')}"`;
+    const lines = ['flowchart LR'];
+    const nodes = this.nodes();
+    nodes.forEach((node, n) => {
+      lines.push(
+        node.component ? `  n${n}[${label(displayUrl(node.id))}]` : `  n${n}[[${label(displayUrl(node.id))}]]`,
+      );
+    });
+    const ids = nodes.map((node) => node.id);
+    const cyclicLinks: number[] = [];
+    this.edges().forEach((edge, e) => {
+      lines.push(`  n${ids.indexOf(edge.from)} -->|${edge.count}| n${ids.indexOf(edge.to)}`);
+      if (edge.cyclic) {
+        cyclicLinks.push(e);
+      }
+    });
+    if (cyclicLinks.length > 0) {
+      lines.push(`  linkStyle ${cyclicLinks.join(',')} stroke:red,color:red`);
+    }
+    return lines.join('\n');
+  }
+}
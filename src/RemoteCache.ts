@@ -0,0 +1,103 @@
+/**
+ * A persistent, on-disk cache of remote API documents, keyed by URL and request headers.
+ * Used by the `http`/`https` document loader when `ApiRefOptions.cacheDir` is set.
+ */
+
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { URL } from 'url';
+
+/**
+ * A cached copy of a remote document
+ */
+export interface CacheEntry {
+  /** The URL the document was read from (without a fragment) */
+  url: string;
+  /** The `ETag` response header, if any */
+  etag?: string;
+  /** The `Last-Modified` response header, if any */
+  lastModified?: string;
+  /** The `Content-Type` response header, if any */
+  contentType?: string;
+  /** Date-time when the document was fetched or last revalidated */
+  fetchedAt: string;
+  /** The text of the document */
+  text: string;
+}
+
+/**
+ * The request headers a document was read with, such as `authorization`
+ */
+export interface RequestHeaders {
+  [name: string]: string;
+}
+
+export class RemoteCache {
+  private readonly dir: string;
+
+  /**
+   * @param dir the directory which holds the cached documents.
+   * It is created when the first document is stored.
+   */
+  constructor(dir: string) {
+    this.dir = dir;
+  }
+
+  /**
+   * @param url the URL of a remote document
+   * @param requestHeaders the request headers the document is read with; a copy read
+   * with different headers (such as other credentials) is not used
+   * @returns the cached copy of the document, or `undefined` if it is not in the cache
+   */
+  public get(url: URL, requestHeaders?: RequestHeaders): CacheEntry | undefined {
+    const fileName = this.fileFor(url, requestHeaders);
+    if (!fs.existsSync(fileName)) {
+      return undefined;
+    }
+    try {
+      const entry = JSON.parse(fs.readFileSync(fileName, { encoding: 'utf8' })) as CacheEntry;
+      return entry.url === RemoteCache.key(url) ? entry : undefined;
+    } catch (ex) {
+      return undefined; // treat a corrupt cache file as a miss
+    }
+  }
+
+  /**
+   * Store a document in the cache, replacing any previous copy.
+   * @param entry the document and its validators
+   * @param requestHeaders the request headers the document was read with
+   */
+  public put(entry: CacheEntry, requestHeaders?: RequestHeaders) {
+    fs.mkdirSync(this.dir, { recursive: true });
+    const fileName = this.fileFor(new URL(entry.url), requestHeaders);
+    const tempFileName = `${fileName}.${process.pid}.tmp`;
+    fs.writeFileSync(tempFileName, JSON.stringify(entry), { encoding: 'utf8' });
+    fs.renameSync(tempFileName, fileName);
+  }
+
+  /**
+   * @param url a document URL
+   * @returns the cache key for the URL: its `href` without a fragment
+   */
+  private static key(url: URL): string {
+    const copy = new URL(url.href);
+    copy.hash = '';
+    return copy.href;
+  }
+
+  /**
+   * @param url a document URL
+   * @param requestHeaders the request headers, if any
+   * @returns the name of the file which caches the document at `url` read with `requestHeaders`.
+   * The headers are hashed with the URL, so they are not stored.
+   */
+  private fileFor(url: URL, requestHeaders?: RequestHeaders): string {
+    const hash = createHash('sha256').update(RemoteCache.key(url));
+    Object.keys(requestHeaders ?? {})
+      .map((name) => `${name.toLowerCase()}: ${requestHeaders[name]}`)
+      .sort()
+      .forEach((header) => hash.update(`\n${header}`));
+    return path.join(this.dir, `${hash.digest('hex')}.json`);
+  }
+}
@@ -0,0 +1,136 @@
+/**
+ * Reverse-dependency queries: which API documents use a document or component,
+ * and through which `$ref` objects.
+ */
+
+import { ApiRefResolver } from './ApiRefResolver';
+import type { ApiRefOptions } from './ApiRefResolver';
+import type { Diagnostic } from './Diagnostics';
+import { displayUrl } from './Diagnostics';
+import { DocumentCache } from './DocumentCache';
+import type { RefSite } from './ReferenceGraph';
+
+/**
+ * The `$ref` objects by which one root API document uses the target
+ */
+export interface RootUsage {
+  /** The URL of the root API document */
+  root: string;
+  /**
+   * Each `$ref` reachable from the root which refers to the target,
+   * directly or through a chain of other `$ref` objects
+   */
+  sites: RefSite[];
+}
+
+/**
+ * The result of {@link findUsages}
+ */
+export interface UsageReport {
+  /** The target URL, with a JSON Pointer fragment if the target is an element within a document */
+  target: string;
+  /** The root documents which use the target; roots which do not use it are omitted */
+  roots: RootUsage[];
+  /** Documents which could not be read */
+  diagnostics: Diagnostic[];
+}
+
+/**
+ * @param prefix a JSON Pointer
+ * @param pointer another JSON Pointer
+ * @returns `true` if `pointer` is `prefix` or an element within it
+ */
+function contains(prefix: string, pointer: string): boolean {
+  return pointer === prefix || pointer.startsWith(`${prefix}/`);
+}
+
+/**
+ * Find the root API documents which use a target document or an element of a document,
+ * and the `$ref` objects by which they use it.
+ * A `$ref` uses the target if it refers to the target, to an element within the target,
+ * or to an element which contains the target; or if it refers to an element which
+ * contains a `$ref` that uses the target.
+ * @param roots the file names or URLs of the root API documents
+ * @param target the file name or URL of the target document, with an optional
+ * JSON Pointer fragment such as `schemas.yaml#/components/schemas/percentage`
+ * @param options options for reading documents. Unless a `documentCache` is passed,
+ * a new one is used, so that each document is read once.
+ * @returns the usage report
+ */
+export async function findUsages(roots: string[], target: string, options?: ApiRefOptions): Promise<UsageReport> {
+  const readOptions: ApiRefOptions = { ...options, documentCache: options?.documentCache ?? new DocumentCache() };
+  const hashIndex = target.indexOf('#');
+  const targetUrl = ApiRefResolver.toUrl(hashIndex >= 0 ? target.substring(0, hashIndex) : target);
+  targetUrl.hash = hashIndex >= 0 ? target.substring(hashIndex) : '';
+  const targetDocument = ApiRefResolver.urlNonFragment(targetUrl).href;
+  const targetPointer = decodeURIComponent(targetUrl.hash.substring(1));
+  const report: UsageReport = { target: targetUrl.href, roots: [], diagnostics: [] };
+
+  for (const root of roots) {
+    const rootUrl = ApiRefResolver.urlNonFragment(ApiRefResolver.toUrl(root)).href;
+    const graph = await new ApiRefResolver(rootUrl).graph(readOptions);
+    report.diagnostics.push(...graph.diagnostics);
+    const sites = graph.sites;
+    // the sites within the element that `site` refers to
+    const referencedSites = (site: RefSite) =>
+      sites.filter((other) => other.fromUrl === site.toUrl && contains(site.toPointer, other.fromPointer));
+
+    // sites reachable from the root document
+    const reachable = new Set(sites.filter((site) => site.fromUrl === rootUrl));
+    for (let pending = [...reachable]; pending.length > 0; ) {
+      const site = pending.shift();
+      for (const next of referencedSites(site)) {
+        if (!reachable.has(next)) {
+          reachable.add(next);
+          pending.push(next);
+        }
+      }
+    }
+
+    // sites which refer to the target directly, then those which refer to them
+    const using = new Set(
+      sites.filter(
+        (site) =>
+          site.toUrl === targetDocument &&
+          (contains(site.toPointer, targetPointer) || contains(targetPointer, site.toPointer)),
+      ),
+    );
+    let added = true;
+    while (added) {
+      added = false;
+      for (const site of sites) {
+        if (!using.has(site) && referencedSites(site).some((other) => using.has(other))) {
+          using.add(site);
+          added = true;
+        }
+      }
+    }
+
+    const rootSites = sites.filter((site) => reachable.has(site) && using.has(site));
+    if (rootSites.length > 0) {
+      report.roots.push({ root: rootUrl, sites: rootSites });
+    }
+  }
+  return report;
+}
+
+/**
+ * Format a usage report for display
+ * @param report the usage report
+ * @param format `text` lists each root and the `$ref` sites in it and the documents
+ * it references; `json` is the report as JSON
+ * @returns the formatted report
+ */
+export function formatUsages(report: UsageReport, format: 'text' | 'json' = 'text'): string {
+  if (format === 'json') {
+    return JSON.stringify(report, null, 2);
+  }
+  const lines = [`${displayUrl(report.target)} is used by ${report.roots.length} API document(s)`];
+  for (const usage of report.roots) {
+    lines.push(displayUrl(usage.root));
+    for (const site of usage.sites) {
+      lines.push(`  ${displayUrl(`${site.fromUrl}#${site.fromPointer}`)}: $ref '${site.ref}'`);
+    }
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,177 @@
+/**
+ * Support for JSON Schema 2020-12 identifiers in OpenAPI 3.1 and AsyncAPI documents:
+ * base URIs from `$id`, and `$ref` fragments which name an `$anchor` or `$dynamicAnchor`
+ * rather than a JSON Pointer.
+ */
+
+import { URL } from 'url';
+
+import type { ApiObject } from './ApiRefResolver';
+import { JsonNavigation, JsonKey } from './JsonNavigation';
+
+/**
+ * Where a schema resource or anchor is defined
+ */
+export interface SchemaLocation {
+  /** The URL (without a fragment) of the document which contains it */
+  document: string;
+  /** The path to the element within that document */
+  path: JsonKey[];
+}
+
+/**
+ * Function signature for visiting each object of a document with its base URI
+ * @param node an object (not an array) in the document
+ * @param base the base URI of `node`: from its own `$id`, the nearest enclosing `$id`, or the document URL
+ * @param path the path to `node` within the document
+ */
+export type BaseUriVisitor = (node: object, base: URL, path: JsonKey[]) => void;
+
+/**
+ * @param fragment a URL fragment, with or without the `#`
+ * @returns `true` if the fragment is empty or a JSON Pointer; `false` if it is an anchor name
+ */
+export function isPointerFragment(fragment: string): boolean {
+  const value = fragment.startsWith('#') ? fragment.substring(1) : fragment;
+  return value === '' || value.startsWith('/');
+}
+
+/**
+ * @param node an object
+ * @param base the base URI of the object's parent
+ * @returns the base URI of the object, without a fragment
+ */
+function baseOf(node: object, base: URL): URL {
+  const id = node['$id'];
+  if (typeof id !== 'string') {
+    return base;
+  }
+  try {
+    const idUrl = new URL(id, base);
+    idUrl.hash = '';
+    return idUrl;
+  } catch (ex) {
+    // not a valid URI reference; it does not change the base URI
+    return base;
+  }
+}
+
+/**
+ * Visit every object of a document with its base URI
+ * @param api an API document or an element of one
+ * @param documentUrl the URL of the document
+ * @param visitor called for each object, parents before their members
+ */
+export function walkWithBase(api: ApiObject, documentUrl: URL, visitor: BaseUriVisitor) {
+  const walk = (node: ApiObject, base: URL, path: JsonKey[]) => {
+    if (Array.isArray(node)) {
+      node.forEach((item, index) => walk(item, base, [...path, index]));
+    } else if (node !== null && typeof node === 'object') {
+      const nodeBase = baseOf(node, base);
+      visitor(node, nodeBase, path);
+      Object.keys(node).forEach((key) => walk(node[key], nodeBase, [...path, key]));
+    }
+  };
+  const documentBase = new URL(documentUrl.href);
+  documentBase.hash = '';
+  walk(api, documentBase, []);
+}
+
+/**
+ * The base URI at a location in a document. The object at `path` is included,
+ * because a `$ref` is resolved against the `$id` of the schema which contains it.
+ * @param api the document
+ * @param path the path to an element of the document
+ * @param documentUrl the URL of the document
+ * @returns the base URI, without a fragment
+ */
+export function baseUrlAt(api: ApiObject, path: JsonKey[], documentUrl: URL): URL {
+  let base = new URL(documentUrl.href);
+  base.hash = '';
+  let node = api;
+  for (let index = 0; node !== null && typeof node === 'object'; index++) {
+    if (!Array.isArray(node)) {
+      base = baseOf(node, base);
+    }
+    if (index === path.length) {
+      break;
+    }
+    node = node[path[index]];
+  }
+  return base;
+}
+
+/**
+ * An index of the schema resources (elements with an `$id`) and anchors
+ * (`$anchor` and `$dynamicAnchor`) of API documents, so that `$ref` URLs which
+ * use them can be mapped to a document and JSON Pointer.
+ */
+export class SchemaIndex {
+  /** Schema resource and document URLs (without a fragment) to their location */
+  private resources = new Map<string, SchemaLocation>();
+  /** `base#anchor` to the location of the anchor */
+  private anchors = new Map<string, SchemaLocation>();
+  private documents = new Set<string>();
+
+  /**
+   * Index a document. Documents which are already indexed are ignored.
+   * The first definition of an `$id` or anchor wins.
+   * @param documentUrl the URL of the document
+   * @param api the document
+   */
+  public addDocument(documentUrl: URL, api: ApiObject) {
+    const documentBase = new URL(documentUrl.href);
+    documentBase.hash = '';
+    const document = documentBase.href;
+    if (this.documents.has(document)) {
+      return;
+    }
+    this.documents.add(document);
+    if (!this.resources.has(document)) {
+      this.resources.set(document, { document, path: [] });
+    }
+    walkWithBase(api, documentBase, (node, base, path) => {
+      if (typeof node['$id'] === 'string' && !this.resources.has(base.href)) {
+        this.resources.set(base.href, { document, path });
+      }
+      for (const key of ['$anchor', '$dynamicAnchor']) {
+        if (typeof node[key] === 'string' && !this.anchors.has(`${base.href}#${node[key]}`)) {
+          this.anchors.set(`${base.href}#${node[key]}`, { document, path });
+        }
+      }
+    });
+  }
+
+  /**
+   * @param url a URL
+   * @returns `true` if the URL (ignoring its fragment) is the `$id` of a schema resource
+   * rather than the URL of a document
+   */
+  public isSchemaId(url: URL): boolean {
+    const base = new URL(url.href);
+    base.hash = '';
+    const resource = this.resources.get(base.href);
+    return resource !== undefined && resource.document !== base.href;
+  }
+
+  /**
+   * Find the element that a `$ref` URL refers to
+   * @param url an absolute `$ref` URL, whose fragment is a JSON Pointer within the
+   * schema resource or document, or an anchor name
+   * @returns the location of the element, or `undefined` if the resource or anchor is not indexed.
+   * The JSON Pointer is not checked.
+   */
+  public locate(url: URL): SchemaLocation | undefined {
+    const base = new URL(url.href);
+    base.hash = '';
+    const fragment = decodeURIComponent(url.hash.substring(1));
+    if (!isPointerFragment(fragment)) {
+      return this.anchors.get(`${base.href}#${fragment}`);
+    }
+    const resource = this.resources.get(base.href);
+    if (!resource) {
+      return undefined;
+    }
+    return { document: resource.document, path: [...resource.path, ...JsonNavigation.asKeys(`#${fragment}`)] };
+  }
+}
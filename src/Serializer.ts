@@ -0,0 +1,54 @@
+/**
+ * Writes API documents as JSON or YAML text, in the format chosen by an option
+ * or by the extension of the output file.
+ */
+
+import type { ApiObject } from './ApiRefResolver';
+import { toYaml } from './YamlOutput';
+import type { DumpOptions } from './YamlOutput';
+
+/** An output format for API documents */
+export type OutputFormat = 'yaml' | 'json';
+
+export interface SerializeOptions {
+  /** The output format. The default is from the extension of `outputPath`, else `yaml` */
+  format?: OutputFormat;
+  /** The output file name or URL; `.json` selects JSON */
+  outputPath?: string;
+  /** If true, JSON is written on one line rather than indented */
+  compactJson?: boolean;
+  /** YAML output settings; see {@link toYaml} */
+  dumpOptions?: DumpOptions;
+  /** The YAML text of the original API document, to keep its formatting; see {@link toYaml} */
+  source?: string;
+}
+
+/**
+ * Choose the output format
+ * @param format the requested format, if any
+ * @param outputPath the output file name or URL, if any
+ * @returns `format` if set; else `json` if `outputPath` ends with `.json`; else `yaml`
+ * @throws Error if `format` is not `yaml` or `json`
+ */
+export function outputFormatFor(format?: string, outputPath?: string): OutputFormat {
+  if (format === 'yaml' || format === 'json') {
+    return format;
+  }
+  if (format !== undefined) {
+    throw new Error(`Unknown output format "${format}"; use yaml or json`);
+  }
+  return /\.json$/i.test(outputPath ?? '') ? 'json' : 'yaml';
+}
+
+/**
+ * Convert an API document to text
+ * @param api the API document
+ * @param options the format, or the output file name to take the format from, and the format settings
+ * @returns the JSON or YAML text
+ */
+export function serialize(api: ApiObject, options?: SerializeOptions): string {
+  if (outputFormatFor(options?.format, options?.outputPath) === 'json') {
+    return options?.compactJson ? JSON.stringify(api) : JSON.stringify(api, null, 2);
+  }
+  return toYaml(api, { dumpOptions: options?.dumpOptions, source: options?.source });
+}
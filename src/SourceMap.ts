@@ -0,0 +1,216 @@
+/**
+ * Tracks where each element of a resolved API document came from:
+ * the source document URL, the JSON Pointer within that document,
+ * and the line and column where the element was parsed.
+ */
+
+import { URL } from 'url';
+
+import * as yaml from 'js-yaml';
+
+import type { ApiObject } from './ApiRefResolver';
+import { JsonNavigation, JsonKey } from './JsonNavigation';
+
+/**
+ * A 1-based line and column in the text of a source document
+ */
+export interface SourcePosition {
+  line: number;
+  column: number;
+}
+
+/**
+ * Where an element in a resolved document came from
+ */
+export interface SourceLocation {
+  /** The URL of the source document */
+  source: string;
+  /** The JSON Pointer of the element within the source document, such as `/components/schemas/health` */
+  pointer: string;
+  /** The line in the source document, if known */
+  line?: number;
+  /** The column in the source document, if known */
+  column?: number;
+}
+
+/**
+ * Maps the JSON Pointer of each element in a resolved document
+ * to the location it came from.
+ */
+export interface SourceMap {
+  [pointer: string]: SourceLocation;
+}
+
+/**
+ * Maps JSON Pointers within a parsed document to their position in the document text
+ */
+export type PositionIndex = Map<string, SourcePosition>;
+
+/**
+ * A node composed by the js-yaml parser, captured by the `listener` option
+ */
+interface ParseFrame {
+  line: number;
+  column: number;
+  kind?: string;
+  result?: unknown;
+  children: ParseFrame[];
+}
+
+/**
+ * Parse a YAML (or JSON) document and record the position of each element.
+ * @param text the document text
+ * @param filename the file name or URL, used in parse error messages
+ * @returns the parsed document and the position index of its elements
+ */
+export function parseYaml(text: string, filename: string): { api: ApiObject; positions: PositionIndex } {
+  const root: ParseFrame = { line: 0, column: 0, children: [] };
+  const stack: ParseFrame[] = [root];
+  const api = yaml.load(text, {
+    filename,
+    schema: yaml.JSON_SCHEMA,
+    listener: (eventType, state) => {
+      if (eventType === 'open') {
+        stack.push({ line: state.line, column: state.position - state.lineStart, children: [] });
+      } else {
+        const frame = stack.pop();
+        frame.kind = state.kind;
+        frame.result = state.result;
+        stack[stack.length - 1].children.push(frame);
+      }
+    },
+  }) as ApiObject;
+  const positions: PositionIndex = new Map();
+  if (root.children.length > 0) {
+    positions.set('', { line: 1, column: 1 });
+    indexFrame(root.children[0], [], positions);
+  }
+  return { api, positions };
+}
+
+/**
+ * Add the positions of the children of a parsed node to the index.
+ * The children of a mapping alternate between keys and values; the
+ * position of a value is that of its key, since the value's own
+ * position is reported after the `:`.
+ * @param frame a parsed node
+ * @param keys the path to `frame`
+ * @param positions the position index
+ */
+function indexFrame(frame: ParseFrame, keys: JsonKey[], positions: PositionIndex) {
+  const position = (child: ParseFrame) => ({ line: child.line + 1, column: child.column + 1 });
+  if (frame.kind === 'mapping') {
+    for (let index = 0; index + 1 < frame.children.length; index += 2) {
+      const path = [...keys, String(frame.children[index].result)];
+      positions.set(JsonNavigation.asFragment(path), position(frame.children[index]));
+      indexFrame(frame.children[index + 1], path, positions);
+    }
+  } else if (frame.kind === 'sequence') {
+    frame.children.forEach((child, index) => {
+      const path = [...keys, index];
+      positions.set(JsonNavigation.asFragment(path), position(child));
+      indexFrame(child, path, positions);
+    });
+  }
+}
+
+/**
+ * An element that was copied into the resolved document
+ */
+interface Origin {
+  /** The path to the element in the resolved document */
+  target: JsonKey[];
+  /** The URL of the document the element was copied from */
+  url: string;
+  /** The path to the element in the source document */
+  source: JsonKey[];
+}
+
+/**
+ * Records the origin of elements as they are copied into a resolved document,
+ * and the positions of elements in each source document.
+ */
+export class SourceTracker {
+  private origins: Origin[] = [];
+  private positions: { [url: string]: PositionIndex } = {};
+
+  /**
+   * Remember the element positions of a source document
+   * @param url the URL of the document (without a fragment)
+   * @param positions the positions of elements, from {@link parseYaml}
+   */
+  public addDocument(url: URL, positions: PositionIndex) {
+    this.positions[url.href] = positions;
+  }
+
+  /**
+   * Remember that the element at `target` in the resolved document was copied from
+   * the element at `source` in the document at `url`.
+   * @param target the path to the element in the resolved document
+   * @param url the URL of the source document
+   * @param source the path to the element in the source document
+   */
+  public add(target: JsonKey[], url: URL, source: JsonKey[]) {
+    const sourceUrl = new URL(url.href);
+    sourceUrl.hash = '';
+    this.origins.push({ target: [...target], url: sourceUrl.href, source: [...source] });
+  }
+
+  /**
+   * Find where an element of the resolved document came from.
+   * The element's origin is the most recently added origin with the longest
+   * `target` path which contains the element.
+   * @param target the path to an element in the resolved document
+   * @returns the source location, or `undefined` if no origin contains `target`
+   */
+  public locate(target: JsonKey[]): SourceLocation | undefined {
+    let best: Origin;
+    for (const origin of this.origins) {
+      if (
+        origin.target.length <= target.length &&
+        (!best || origin.target.length >= best.target.length) &&
+        origin.target.every((key, index) => String(key) === String(target[index]))
+      ) {
+        best = origin;
+      }
+    }
+    if (!best) {
+      return undefined;
+    }
+    const pointer = JsonNavigation.asFragment([...best.source, ...target.slice(best.target.length)]);
+    const location: SourceLocation = { source: best.url, pointer };
+    const position = this.positions[best.url]?.get(pointer);
+    if (position) {
+      location.line = position.line;
+      location.column = position.column;
+    }
+    return location;
+  }
+
+  /**
+   * Build the source map for a resolved document
+   * @param api the resolved document
+   * @param ignoredKeys keys (such as resolver markers) which are not in any source document
+   * @returns the source location of every element of `api`
+   */
+  public sourceMap(api: ApiObject, ignoredKeys: string[] = []): SourceMap {
+    const sourceMap: SourceMap = {};
+    const visit = (node: ApiObject, keys: JsonKey[]) => {
+      const location = this.locate(keys);
+      if (location) {
+        sourceMap[JsonNavigation.asFragment(keys)] = location;
+      }
+      if (Array.isArray(node)) {
+        node.forEach((item, index) => visit(item, [...keys, index]));
+      } else if (node !== null && typeof node === 'object') {
+        for (const key of Object.keys(node)) {
+          if (!ignoredKeys.includes(key)) {
+            visit(node[key], [...keys, key]);
+          }
+        }
+      }
+    };
+    visit(api, []);
+    return sourceMap;
+  }
+}
@@ -0,0 +1,145 @@
+/**
+ * Removes the components of a resolved API document which nothing refers to.
+ */
+
+import { URL } from 'url';
+
+import type { ApiObject } from './ApiRefResolver';
+import { JsonNavigation } from './JsonNavigation';
+import type { JsonKey } from './JsonNavigation';
+import { isRef } from './RefVisitor';
+import type { RefObject } from './RefVisitor';
+import { baseUrlAt, SchemaIndex } from './SchemaIndex';
+
+/**
+ * The components sections which are kept by default because
+ * they are referenced by name rather than by `$ref`.
+ */
+export const DEFAULT_KEEP_SECTIONS = ['securitySchemes'];
+
+/**
+ * Remove the components which are not reachable from the rest of the API document.
+ * The walk starts from every top-level element except `components` (such as
+ * `paths` and `webhooks` in OpenAPI, or `channels` in AsyncAPI) and from the
+ * components in the `keepSections`, and follows local `#/components/...` references,
+ * including schema names in `discriminator` `mapping` objects.
+ * If `documentUrl` is passed, it also follows references to the `$id` and `$anchor`
+ * of schemas in the document, such as `https://schemas.example.com/size`.
+ * Sections which become empty are removed, as is `components` if it becomes empty.
+ * @param api a resolved API document; it is modified in place
+ * @param keepSections components sections which are always kept
+ * @param documentUrl the URL of the API document, which `$ref` objects are resolved against
+ * @returns the JSON Pointers of the removed components, such as `/components/schemas/internalThing`
+ */
+export function removeUnusedComponents(
+  api: ApiObject,
+  keepSections: string[] = DEFAULT_KEEP_SECTIONS,
+  documentUrl?: URL,
+): string[] {
+  const components = api?.['components'];
+  if (components === null || typeof components !== 'object') {
+    return [];
+  }
+  const used = new Set<string>(); // `section/name` of each reachable component
+  const pending: { node: ApiObject; path: JsonKey[] }[] = [];
+  let schemaIndex: SchemaIndex;
+  let document: string;
+  if (documentUrl) {
+    schemaIndex = new SchemaIndex();
+    schemaIndex.addDocument(documentUrl, api);
+    const documentBase = new URL(documentUrl.href);
+    documentBase.hash = '';
+    document = documentBase.href;
+  }
+
+  const use = (section: string, name?: string) => {
+    const names = name === undefined ? Object.keys(components[section] ?? {}) : [name];
+    for (const componentName of names) {
+      const key = `${section}/${componentName}`;
+      if (!used.has(key) && components[section]?.hasOwnProperty(componentName)) {
+        used.add(key);
+        pending.push({ node: components[section][componentName], path: ['components', section, componentName] });
+      }
+    }
+  };
+  const useKeys = (keys: JsonKey[]) => {
+    if (keys[0] !== 'components') {
+      return;
+    }
+    if (keys.length === 1) {
+      Object.keys(components).forEach((section) => use(section));
+    } else {
+      use(String(keys[1]), keys.length > 2 ? String(keys[2]) : undefined);
+    }
+  };
+  const useRef = (ref: string, path: JsonKey[]) => {
+    if (ref.startsWith('#/components')) {
+      useKeys(JsonNavigation.asKeys(ref));
+      return;
+    }
+    if (!schemaIndex) {
+      return;
+    }
+    try {
+      const location = schemaIndex.locate(new URL(ref, baseUrlAt(api, path, documentUrl)));
+      if (location?.document === document) {
+        useKeys(location.path);
+      }
+    } catch (ex) {
+      // not a valid URL or JSON Pointer; nothing to keep
+    }
+  };
+  const walk = (node: ApiObject, path: JsonKey[]) => {
+    if (Array.isArray(node)) {
+      node.forEach((item, index) => walk(item, [...path, index]));
+    } else if (node !== null && typeof node === 'object') {
+      if (isRef(node)) {
+        useRef((node as RefObject).$ref, path);
+      }
+      const mapping = node['discriminator']?.['mapping'];
+      if (mapping !== null && typeof mapping === 'object') {
+        Object.values(mapping).forEach((value) => {
+          if (typeof value === 'string') {
+            useRef(value.startsWith('#') ? value : `#/components/schemas/${value}`, path);
+          }
+        });
+      }
+      Object.keys(node).forEach((key) => walk(node[key], [...path, key]));
+    }
+  };
+
+  Object.keys(api)
+    .filter((key) => key !== 'components')
+    .forEach((key) => walk(api[key], [key]));
+  Object.keys(components)
+    .filter((key) => key.startsWith('x-'))
+    .forEach((key) => walk(components[key], ['components', key]));
+  keepSections.forEach((section) => use(section));
+  while (pending.length > 0) {
+    const { node, path } = pending.shift();
+    walk(node, path);
+  }
+
+  // Specification extensions (`x-...`) are neither sections nor components
+  const removed: string[] = [];
+  for (const section of Object.keys(components).filter((key) => !key.startsWith('x-'))) {
+    const sectionObject = components[section];
+    if (sectionObject === null || typeof sectionObject !== 'object') {
+      continue;
+    }
+    const unused = Object.keys(sectionObject).filter(
+      (name) => !name.startsWith('x-') && !used.has(`${section}/${name}`),
+    );
+    unused.forEach((name) => {
+      delete sectionObject[name];
+      removed.push(JsonNavigation.asFragment(['components', section, name]));
+    });
+    if (unused.length > 0 && Object.keys(sectionObject).length === 0) {
+      delete components[section];
+    }
+  }
+  if (removed.length > 0 && Object.keys(components).length === 0) {
+    delete api['components'];
+  }
+  return removed;
+}
@@ -0,0 +1,187 @@
+/**
+ * Writes a resolved API document as YAML, optionally keeping the comments,
+ * key order and scalar styles of the original API document.
+ */
+
+import * as jsYaml from 'js-yaml';
+import * as YAML from 'yaml';
+import { Alias, Node, Pair, Scalar, Schema, strOptions, YAMLMap, YAMLSeq } from 'yaml/types';
+import { Type } from 'yaml/util';
+
+import type { ApiObject } from './ApiRefResolver';
+
+/**
+ * YAML output settings. These are the `js-yaml` `dump()` options of the same names.
+ */
+export interface DumpOptions {
+  /**
+   * The maximum line width; longer strings are folded. `-1` for no limit.
+   * The default is 80, or no limit when keeping the original formatting.
+   */
+  lineWidth?: number;
+  /** The quote for strings which need quotes: `'` (the default) or `"` */
+  quotingType?: "'" | '"';
+  /** If true, quote all (new) strings */
+  forceQuotes?: boolean;
+  /** The number of spaces to indent. The default is 2. */
+  indent?: number;
+  /** The nesting level from which collections use flow style, such as `[a, b]`. The default, `-1`, is block style */
+  flowLevel?: number;
+  /**
+   * If true, repeated objects are written again rather than with YAML anchors and aliases.
+   * When keeping the original formatting, only new elements which repeat other new elements are aliases.
+   */
+  noRefs?: boolean;
+}
+
+export interface YamlOutputOptions {
+  dumpOptions?: DumpOptions;
+  /**
+   * The YAML text of the original API document. If set, the output keeps its comments,
+   * key order and scalar styles for the elements which were not replaced.
+   */
+  source?: string;
+}
+
+/**
+ * Convert an API document to YAML
+ * @param api the (resolved) API document
+ * @param options the dump settings, and the original text to keep the formatting of
+ * @returns the YAML text
+ */
+export function toYaml(api: ApiObject, options?: YamlOutputOptions): string {
+  const dumpOptions = options?.dumpOptions ?? {};
+  if (options?.source === undefined) {
+    return jsYaml.dump(api, dumpOptions);
+  }
+  const document = YAML.parseDocument(options.source, { indent: dumpOptions.indent ?? 2 });
+  if (document.errors.length > 0) {
+    return jsYaml.dump(api, dumpOptions);
+  }
+  const context: NodeContext = {
+    dumpOptions,
+    schema: document.schema,
+    createContext: dumpOptions.noRefs ? undefined : { prevObjects: new Map(), aliasNodes: [] },
+  };
+  document.contents = update(document.contents, api, 0, context) as YAML.Document['contents'];
+  (context.createContext?.aliasNodes ?? []).forEach((alias: Alias) => {
+    // as in yaml's own stringify(), the alias refers to the wrapper of the node it repeats
+    alias.source = (alias.source as unknown as { node: Node }).node;
+    if (!document.anchors.getName(alias.source)) {
+      document.anchors.setAnchor(alias.source);
+    }
+  });
+  // yaml 1.x reads the fold width only from the global strOptions; Document.toString() has
+  // no options, so set the width for this (synchronous) call and restore it
+  const fold = { ...strOptions.fold };
+  strOptions.fold.lineWidth = (dumpOptions.lineWidth ?? -1) < 0 ? 0 : dumpOptions.lineWidth;
+  try {
+    return String(document);
+  } finally {
+    Object.assign(strOptions.fold, fold);
+  }
+}
+
+/**
+ * What {@link update} and {@link create} need to create new nodes
+ */
+interface NodeContext {
+  /** The dump settings for new nodes */
+  dumpOptions: DumpOptions;
+  /** The schema of the document */
+  schema: Schema;
+  /**
+   * The `yaml` context which finds repeated objects and creates aliases for them;
+   * `undefined` for `noRefs`
+   */
+  createContext?: Schema.CreateNodeContext;
+}
+
+/**
+ * @param value a value
+ * @returns `true` if the value is an object which is not an array
+ */
+function isMap(value: unknown): value is object {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * @param pair a member of a YAML mapping
+ * @returns the key of the pair as a string
+ */
+function keyOf(pair: Pair): string {
+  return String(pair.key instanceof Scalar ? pair.key.value : pair.key);
+}
+
+/**
+ * Reconcile a node of the original document with the resolved value at the same location:
+ * unchanged scalars and the members of mappings and sequences are kept as they were,
+ * with their comments and styles; other values are replaced with new nodes.
+ * @param node the original node, if any
+ * @param value the resolved value
+ * @param level the nesting level
+ * @param context the dump settings and schema for new nodes
+ * @returns the node for `value`
+ */
+function update(node: unknown, value: ApiObject, level: number, context: NodeContext): unknown {
+  if (node instanceof YAMLMap && isMap(value)) {
+    node.items = Object.keys(value).map((key) => {
+      const pair = (node.items as Pair[]).find((item) => keyOf(item) === key);
+      if (pair) {
+        pair.value = update(pair.value, value[key], level + 1, context);
+        return pair;
+      }
+      return new Pair(create(key, level + 1, context), create(value[key], level + 1, context));
+    });
+    return node;
+  }
+  if (node instanceof YAMLSeq && Array.isArray(value)) {
+    node.items = (value as ApiObject[]).map((item, index) => update(node.items[index], item, level + 1, context));
+    return node;
+  }
+  if (node instanceof Scalar && node.value === value) {
+    return node;
+  }
+  return create(value, level, context);
+}
+
+/**
+ * Create a node for a new value, with the styles from the dump settings.
+ * Unless `noRefs` is set, an object which was already written as a new node is an alias of it.
+ * @param value the value
+ * @param level the nesting level
+ * @param context the dump settings and schema
+ * @returns the node
+ */
+function create(value: ApiObject, level: number, context: NodeContext): unknown {
+  const dumpOptions = context.dumpOptions;
+  const node = context.schema.createNode(value, true, undefined, context.createContext);
+  const style = (item: unknown, itemLevel: number) => {
+    if (item instanceof YAMLMap || item instanceof YAMLSeq) {
+      if (dumpOptions.flowLevel !== undefined && dumpOptions.flowLevel >= 0 && itemLevel >= dumpOptions.flowLevel) {
+        item.type = item instanceof YAMLMap ? Type.FLOW_MAP : Type.FLOW_SEQ;
+      }
+      (item.items as unknown[]).forEach((member) => {
+        if (member instanceof Pair) {
+          style(member.key, itemLevel + 1);
+          style(member.value, itemLevel + 1);
+        } else {
+          style(member, itemLevel + 1);
+        }
+      });
+    } else if (item instanceof Scalar && typeof item.value === 'string' && quoted(item.value, dumpOptions)) {
+      item.type = dumpOptions.quotingType === '"' ? Type.QUOTE_DOUBLE : Type.QUOTE_SINGLE;
+    }
+  };
+  style(node, level);
+  return node;
+}
+
+/**
+ * @param text a string
+ * @param dumpOptions the dump settings
+ * @returns `true` if the string should be quoted, as it would be in the `js-yaml` output
+ */
+function quoted(text: string, dumpOptions: DumpOptions): boolean {
+  return dumpOptions.forceQuotes || /^['"]/.test(jsYaml.dump(text, { lineWidth: -1 }));
+}
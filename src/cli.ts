@@ -1,52 +1,505 @@
 #!/usr/bin/env node
 
 import * as fs from 'fs';
+import { fileURLToPath, pathToFileURL, URL } from 'url';
 
-import { Command } from 'commander';
+import { Command, InvalidArgumentError, Option, OptionValues } from 'commander';
+import * as fastGlob from 'fast-glob';
 import * as mkdirs from 'mkdirs';
 import * as path from 'path';
-import * as yaml from 'js-yaml';
 
 import { version } from '../package.json';
 import { ApiRefResolver } from './ApiRefResolver';
 import type { ApiRefOptions } from './ApiRefResolver';
+import { formatBatchReport, resolveAll } from './BatchResolver';
+import { formatConflicts } from './ComponentConflict';
+import { formatDiagnostic, ResolutionError } from './Diagnostics';
+import { DocumentCache } from './DocumentCache';
+import { asLoadedDocument, loaderFor } from './DocumentLoader';
+import type { LoadedDocument } from './DocumentLoader';
+import { documentFormatFor, parseDocument } from './DocumentParser';
+import { stripMarkers } from './Markers';
+import { findUsages, formatUsages } from './ReverseDependencies';
+import { serialize } from './Serializer';
 
-async function main(args: string[] = process.argv) {
-  const cli = new Command();
-  cli
-    .version(version)
-    .usage('[options]')
-    .option('-i, --input <input-file>', 'An openapi.yaml or asyncapi.yaml file name or URL. Defaults to "pi.yaml"')
-    .option('-o, --output <output-file>', 'The output file, defaults to stdout if omitted')
-    .option('-f, --format [yaml|json]', 'Output format for stdout if no --output option is used; default to yaml')
-    .option('-n, --no-markers', 'Do not add x-resolved-from and x-resolved-at markers')
-    .option('-v, --verbose', 'Verbose output')
-    .parse(args);
-  const opts = cli.opts();
-  const sourceFileName: string = opts.input || 'api.yaml';
-  const outputFileName: string = opts.output;
+/**
+ * @param min the smallest value allowed
+ * @returns a commander option parser for whole numbers of at least `min`
+ */
+function integerOption(min: number): (value: string) => number {
+  return (value: string) => {
+    const number = Number(value);
+    if (value.trim() === '' || !Number.isInteger(number) || number < min) {
+      throw new InvalidArgumentError(`Expected a whole number of at least ${min}.`);
+    }
+    return number;
+  };
+}
+
+/**
+ * Add the options for reading the input API documents to a command
+ * @param command a CLI command
+ * @param multiple if true, `--input` accepts several file names, glob patterns or URLs
+ * @returns the command
+ */
+function withInputOptions(command: Command, multiple = false): Command {
+  if (multiple) {
+    command.option(
+      '-i, --input <input-files...>',
+      'API document file names, glob patterns such as "apis/**/api.yaml", or URLs',
+    );
+  } else {
+    command
+      .option(
+        '-i, --input <input-file>',
+        'An openapi.yaml or asyncapi.yaml file name or URL, or - for stdin. Defaults to stdin if it is piped, else "api.yaml"',
+      )
+      .option(
+        '--base-url <url>',
+        'The file name or URL that relative $ref in stdin are resolved against; default is ./',
+      );
+  }
+  return command
+    .option('-H, --header <header...>', 'HTTP request header "name: value" used when reading remote documents')
+    .option('-t, --timeout <milliseconds>', 'Timeout for reading remote documents', integerOption(0))
+    .option('-c, --cache-dir <directory>', 'Cache remote documents in this directory')
+    .option('--offline', 'Read remote documents only from the --cache-dir cache')
+    .option('-v, --verbose', 'Verbose output');
+}
 
-  const resolver = new ApiRefResolver(sourceFileName);
+/**
+ * @param opts the parsed command line options
+ * @returns the resolver options for the input options added by {@link withInputOptions}
+ */
+function inputOptions(opts: OptionValues): ApiRefOptions {
   const options: ApiRefOptions = {};
   options.verbose = opts.verbose;
-  options.noMarkers = opts.noMarkers;
-  resolver
-    .resolve(options)
-    .then((resolved) => {
-      if (outputFileName) {
-        const outDir = path.dirname(outputFileName);
-        mkdirs(outDir);
-        fs.writeFileSync(outputFileName, yaml.dump(resolved.api), 'utf8');
-      } else if (opts.format === 'json') {
-        console.log(JSON.stringify(resolved.api, null, 2));
-      } else {
-        console.log(yaml.dump(resolved.api));
+  options.timeout = opts.timeout;
+  options.cacheDir = opts.cacheDir;
+  options.offline = opts.offline;
+  if (opts.offline && !opts.cacheDir) {
+    console.error('--offline requires --cache-dir');
+    process.exit(1);
+  }
+  if (opts.header) {
+    options.requestHeaders = {};
+    for (const header of opts.header as string[]) {
+      const colon = header.indexOf(':');
+      if (colon <= 0) {
+        console.error(`Invalid header "${header}"; use "name: value"`);
+        process.exit(1);
       }
-    })
-    .catch((ex) => {
-      console.error(ex.message);
+      options.requestHeaders[header.substring(0, colon).trim()] = header.substring(colon + 1).trim();
+    }
+  }
+  return options;
+}
+
+/**
+ * Expand glob patterns in a list of input file names. URLs are not expanded,
+ * and a file name which matches no files is kept so that reading it reports the error.
+ * @param inputs file names, glob patterns, or URLs
+ * @returns the file names and URLs
+ */
+function expandInputs(inputs: string[]): string[] {
+  return inputs.flatMap((input) => {
+    if (/^\w\w+:/.test(input) || !fastGlob.isDynamicPattern(input)) {
+      return [input];
+    }
+    return fastGlob.sync(input.replace(/\\/g, '/'), { onlyFiles: true }).sort();
+  });
+}
+
+/**
+ * @param opts the parsed command line options
+ * @returns true if the input document is read from stdin: for `--input -`,
+ * or if there is no `--input` and stdin is a pipe or a file
+ */
+function readsStdin(opts: OptionValues): boolean {
+  if (opts.input !== undefined) {
+    return opts.input === '-';
+  }
+  const stdin = fs.fstatSync(0);
+  return stdin.isFIFO() || stdin.isFile();
+}
+
+/**
+ * @param opts the parsed command line options
+ * @returns the URL of the document read from stdin: the `--base-url`, or if that is
+ * a directory (ending with `/`), `stdin` in that directory
+ */
+function stdinUrl(opts: OptionValues): URL {
+  const base: string = opts.baseUrl ?? './';
+  const url = ApiRefResolver.toUrl(base);
+  if (!/[\\/]$/.test(base)) {
+    return url;
+  }
+  if (!url.pathname.endsWith('/')) {
+    url.pathname = `${url.pathname}/`;
+  }
+  return new URL('stdin', url);
+}
+
+/**
+ * @param opts the parsed command line options
+ * @returns a resolver for the `--input` document, or for the document read from stdin
+ */
+function inputResolver(opts: OptionValues): ApiRefResolver {
+  if (readsStdin(opts)) {
+    return ApiRefResolver.fromText(fs.readFileSync(0, 'utf8'), stdinUrl(opts));
+  }
+  return new ApiRefResolver(opts.input || 'api.yaml');
+}
+
+/**
+ * Write text to a file, creating its directory if needed, or to stdout
+ * @param text the text to write
+ * @param outputFileName the file name; if omitted, write to stdout
+ */
+function writeOutput(text: string, outputFileName?: string) {
+  if (outputFileName) {
+    mkdirs(path.dirname(outputFileName));
+    fs.writeFileSync(outputFileName, text, 'utf8');
+  } else {
+    console.log(text);
+  }
+}
+
+/**
+ * The `resolve` command: resolve the input API document and write the result
+ * @param opts the parsed command line options
+ */
+async function resolveCommand(opts: OptionValues) {
+  const sourceFileName: string = opts.input || 'api.yaml';
+  const outputFileName: string = opts.output;
+
+  const options = inputOptions(opts);
+  // commander sets `markers` to false for --no-markers
+  options.noMarkers = opts.markers === false;
+  options.markers = {
+    resolvedFrom: opts.resolvedFromMarker,
+    resolvedAt: opts.resolvedAtMarker,
+    emit: opts.emitMarkers,
+  };
+  options.sourceMap = !!opts.sourceMap;
+  options.danglingRefs = opts.danglingRefs;
+  options.hoistFragments = opts.hoistFragments;
+  options.mode = opts.mode;
+  options.recursiveRefs = opts.recursiveRefs;
+  options.removeUnused = opts.removeUnused;
+  options.keepSections = opts.keepSections;
+  options.outputPath = outputFileName;
+  options.reproducible = opts.reproducible;
+  options.resolvedAt = opts.resolvedAt;
+  options.force = opts.force;
+  options.outputFormat = opts.format;
+  options.compactJson = opts.compact;
+  options.preserveFormatting = opts.preserveFormatting;
+  options.dumpOptions = {
+    lineWidth: opts.lineWidth,
+    quotingType: opts.quotingType === 'double' ? '"' : "'",
+    forceQuotes: opts.forceQuotes,
+    indent: opts.indent,
+    flowLevel: opts.flowLevel,
+    // commander sets `refs` to false for --no-refs
+    noRefs: opts.refs === false,
+  };
+  if (opts.outDir) {
+    await resolveBatch(opts, options);
+    return;
+  }
+  if (opts.watch) {
+    if (readsStdin(opts)) {
+      console.error('--watch cannot be used with input from stdin');
       process.exit(1);
-    });
+    }
+    options.documentCache = new DocumentCache();
+  }
+
+  /**
+   * Resolve the input and write the output
+   * @returns the URLs of the documents that were read
+   */
+  const run = (): Promise<string[]> =>
+    inputResolver(opts)
+      .resolve(options)
+      .then((resolved) => {
+        resolved.diagnostics.forEach((diagnostic) => console.error(formatDiagnostic(diagnostic)));
+        if (opts.conflicts) {
+          console.error(formatConflicts(resolved.conflicts, opts.conflicts === 'json' ? 'json' : 'table'));
+        }
+        writeOutput(resolved.serialize(), outputFileName);
+        if (opts.sourceMap) {
+          writeOutput(JSON.stringify(resolved.sourceMap, null, 2), opts.sourceMap);
+        }
+        return resolved.documents;
+      })
+      .catch((ex) => {
+        if (ex instanceof ResolutionError) {
+          ex.diagnostics.forEach((diagnostic) => console.error(formatDiagnostic(diagnostic)));
+        } else {
+          console.error(ex.message);
+        }
+        if (!opts.watch) {
+          process.exit(1);
+        }
+        // Also watch documents which could not be read or parsed, so that fixing them triggers a new run
+        const documents: string[] = ex.resolution?.documents ?? [ApiRefResolver.toUrl(sourceFileName).href];
+        const failed: string[] = (ex.diagnostics ?? []).map(
+          (diagnostic) => diagnostic.targetUrl ?? diagnostic.document,
+        );
+        return [...documents, ...failed.filter((href) => href && !documents.includes(href))];
+      });
+
+  if (!opts.watch) {
+    await run();
+    return;
+  }
+
+  // Watch the files that were read; when one changes, drop it from the document
+  // cache and resolve again. Runs are queued so that they do not overlap.
+  let watched: string[] = [];
+  let queue = Promise.resolve();
+  let timer: NodeJS.Timeout;
+  const watch = (documents: string[]) => {
+    const files = [...new Set(documents.filter((href) => href.startsWith('file:')).map((href) => fileURLToPath(href)))];
+    watched.filter((file) => !files.includes(file)).forEach((file) => fs.unwatchFile(file));
+    files
+      .filter((file) => !watched.includes(file))
+      .forEach((file) =>
+        fs.watchFile(file, { interval: 250 }, (current, previous) => {
+          if (current.mtimeMs !== previous.mtimeMs) {
+            changed(file);
+          }
+        }),
+      );
+    watched = files;
+  };
+  const changed = (file: string) => {
+    options.documentCache.invalidate(pathToFileURL(file));
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      queue = queue.then(async () => {
+        console.error(`${file} changed; resolving ${sourceFileName}`);
+        watch(await run());
+      });
+    }, 100);
+  };
+  watch(await run());
+  console.error(`Watching ${watched.length} files for changes. Press Ctrl+C to stop.`);
+}
+
+/**
+ * Resolve each API document matched by `--input` and write it within `--out-dir`
+ * @param opts the parsed command line options
+ * @param options the resolver options
+ */
+async function resolveBatch(opts: OptionValues, options: ApiRefOptions) {
+  if (opts.input === '-' || opts.input === undefined || opts.output || opts.sourceMap || opts.watch) {
+    console.error(
+      '--out-dir needs an --input file name or pattern, and cannot be used with --output, --source-map or --watch',
+    );
+    process.exit(1);
+  }
+  const roots = expandInputs([opts.input]);
+  const report = await resolveAll(roots, options, {
+    outDir: opts.outDir,
+    concurrency: opts.concurrency,
+    onResult: (result) => {
+      result.diagnostics.forEach((diagnostic) => console.error(formatDiagnostic(diagnostic)));
+      if (result.resolution) {
+        if (opts.conflicts) {
+          console.error(formatConflicts(result.resolution.conflicts, opts.conflicts === 'json' ? 'json' : 'table'));
+        }
+        try {
+          writeOutput(result.resolution.serialize(), result.outputPath);
+        } catch (ex) {
+          result.error = `Cannot write ${result.outputPath}: ${ex.message}`;
+          console.error(result.error);
+        }
+      } else if (result.diagnostics.length === 0) {
+        console.error(result.error);
+      }
+    },
+  });
+  console.error(formatBatchReport(report));
+  if (report.results.some((result) => result.error)) {
+    process.exit(1);
+  }
+}
+
+/**
+ * The `graph` command: write the graph of `$ref` references between documents and components
+ * @param opts the parsed command line options
+ */
+async function graphCommand(opts: OptionValues) {
+  try {
+    const graph = await inputResolver(opts).graph(inputOptions(opts));
+    graph.diagnostics.forEach((diagnostic) => console.error(formatDiagnostic(diagnostic)));
+    writeOutput(graph.format(opts.format), opts.output);
+  } catch (ex) {
+    console.error(ex.message);
+    process.exit(1);
+  }
+}
+
+/**
+ * The `uses` command: list the API documents and `$ref` objects which use a target document or component
+ * @param opts the parsed command line options
+ */
+async function usesCommand(opts: OptionValues) {
+  try {
+    const roots = expandInputs(opts.input ?? ['api.yaml']);
+    const report = await findUsages(roots, opts.target, inputOptions(opts));
+    report.diagnostics.forEach((diagnostic) => console.error(formatDiagnostic(diagnostic)));
+    writeOutput(formatUsages(report, opts.format), opts.output);
+  } catch (ex) {
+    console.error(ex.message);
+    process.exit(1);
+  }
+}
+
+/**
+ * The `strip` command: remove the resolver markers and other extensions from an API document
+ * @param opts the parsed command line options
+ */
+async function stripCommand(opts: OptionValues) {
+  try {
+    const options = inputOptions(opts);
+    let url: URL;
+    let loaded: LoadedDocument;
+    if (readsStdin(opts)) {
+      url = stdinUrl(opts);
+      loaded = { text: fs.readFileSync(0, 'utf8') };
+    } else {
+      url = ApiRefResolver.toUrl(opts.input || 'api.yaml');
+      const loader = loaderFor(url, options.loaders);
+      if (!loader) {
+        throw new Error(`No document loader for ${url.protocol} URL ${url.href}`);
+      }
+      loaded = asLoadedDocument(await loader(url, options));
+    }
+    const documentUrl = ApiRefResolver.urlNonFragment(url);
+    const { api } = parseDocument(loaded.text, documentUrl.href, documentFormatFor(documentUrl, loaded.contentType));
+    const removed = stripMarkers(api, { markers: opts.markers, extensions: opts.extensions });
+    if (opts.verbose) {
+      removed.forEach((pointer) => console.warn(`Removed ${pointer}`));
+    }
+    writeOutput(
+      serialize(api, { format: opts.format, outputPath: opts.output, compactJson: opts.compact }),
+      opts.output,
+    );
+  } catch (ex) {
+    console.error(ex.message);
+    process.exit(1);
+  }
+}
+
+async function main(args: string[] = process.argv) {
+  const cli = new Command();
+  cli.name('api-ref-resolver').version(version);
+  withInputOptions(
+    cli.command('resolve', { isDefault: true }).description('Resolve external $ref objects (the default command)'),
+  )
+    .option('-o, --output <output-file>', 'The output file, defaults to stdout if omitted')
+    .option('-f, --format <yaml|json>', 'Output format; default is json for a .json output file, else yaml')
+    .option('--compact', 'Write JSON on one line rather than indented')
+    .option('-n, --no-markers', 'Do not add x-resolved-from and x-resolved-at markers')
+    .option('--resolved-from-marker <name>', 'The name of the x-resolved-from marker')
+    .option('--resolved-at-marker <name>', 'The name of the x-resolved-at marker')
+    .addOption(
+      new Option('--emit-markers <marker...>', 'The markers to add; default is all of them').choices([
+        'resolvedFrom',
+        'resolvedAt',
+      ]),
+    )
+    .addOption(
+      new Option(
+        '-d, --dangling-refs <severity>',
+        'Severity of dangling $ref diagnostics; by default unreadable $refs are errors, others warnings',
+      ).choices(['error', 'warning']),
+    )
+    .addOption(
+      new Option('--conflicts [format]', 'Print the component name conflicts to stderr as a table or JSON').choices([
+        'table',
+        'json',
+      ]),
+    )
+    .option('-s, --source-map <source-map-file>', 'Write a JSON source map of where each element came from')
+    .option('--hoist-fragments', 'Add referenced fragments of other documents as components instead of copies')
+    .addOption(
+      new Option('-m, --mode <mode>', 'dereference also replaces local $ref objects; default is bundle').choices([
+        'bundle',
+        'dereference',
+      ]),
+    )
+    .addOption(
+      new Option(
+        '--recursive-refs <policy>',
+        'Keep recursive $ref objects when dereferencing, or fail; default is keep',
+      ).choices(['keep', 'error']),
+    )
+    .option('-u, --remove-unused', 'Remove components which are not referenced')
+    .option(
+      '--keep-sections <section...>',
+      'Components sections which --remove-unused keeps; default is securitySchemes',
+    )
+    .option('--reproducible', 'Sort components and take x-resolved-at from SOURCE_DATE_EPOCH (or omit it)')
+    .option('--resolved-at <date-time>', 'The x-resolved-at date-time, such as 2022-03-11T16:27:59Z')
+    .option('--force', 'Resolve the input even if it has an x-resolved-from marker, after removing its markers')
+    .option('--preserve-formatting', 'Keep the comments, key order and scalar styles of the input in the YAML output')
+    .option('--line-width <columns>', 'Fold YAML strings longer than this; -1 for no limit', integerOption(-1))
+    .option('--indent <spaces>', 'YAML indentation; default is 2', integerOption(1))
+    .addOption(
+      new Option('--quoting-type <quote>', 'The quotes for YAML strings which need them; default is single').choices([
+        'single',
+        'double',
+      ]),
+    )
+    .option('--force-quotes', 'Quote all YAML strings')
+    .option('--flow-level <level>', 'Nesting level from which YAML uses flow style', integerOption(-1))
+    .option('--no-refs', 'Repeat shared YAML elements instead of using anchors and aliases')
+    .option('-w, --watch', 'Resolve again whenever a file that was read changes')
+    .option(
+      '--out-dir <directory>',
+      'Resolve every API document matched by --input, such as "apis/*/api.yaml", into this directory',
+    )
+    .option(
+      '--concurrency <count>',
+      'The number of API documents resolved at once with --out-dir; default is 4',
+      integerOption(1),
+    )
+    .action(resolveCommand);
+  withInputOptions(
+    cli.command('graph').description('Write the graph of $ref references between documents and components'),
+  )
+    .option('-o, --output <output-file>', 'The output file, defaults to stdout if omitted')
+    .option('-f, --format <dot|json|mermaid>', 'Graph format; default is dot', 'dot')
+    .action(graphCommand);
+  withInputOptions(
+    cli.command('uses').description('List the API documents and $ref objects which use a document or component'),
+    true,
+  )
+    .requiredOption(
+      '-T, --target <target>',
+      'The document, or element such as "schemas.yaml#/components/schemas/percentage", to look for',
+    )
+    .option('-o, --output <output-file>', 'The output file, defaults to stdout if omitted')
+    .option('-f, --format <text|json>', 'Report format; default is text', 'text')
+    .action(usesCommand);
+  withInputOptions(
+    cli.command('strip').description('Remove the resolver markers and other extensions from an API document'),
+  )
+    .option('-o, --output <output-file>', 'The output file, defaults to stdout if omitted')
+    .option('-f, --format <yaml|json>', 'Output format; default is json for a .json output file, else yaml')
+    .option('--compact', 'Write JSON on one line rather than indented')
+    .option('-x, --extensions <extension...>', 'Other specification extensions to remove, such as x-internal')
+    .option('--markers <marker...>', 'The marker names to remove; default is x-resolved-from x-resolved-at')
+    .action(stripCommand);
+  await cli.parseAsync(args);
 }
 
-main(process.argv);
+main(process.argv).catch((ex) => {
+  console.error(ex.message);
+  process.exit(1);
+});
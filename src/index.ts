@@ -1,5 +1,96 @@
 import { ApiRefResolver } from './ApiRefResolver';
 import type { ApiRefOptions as Options, ApiRefResolution as Resolution } from './ApiRefResolver';
-module.exports = { ApiRefResolver };
+import { batchOutputPaths, formatBatchReport, resolveAll } from './BatchResolver';
+import type { BatchOptions as Batch, BatchReport as BatchSummary, RootResult as Result } from './BatchResolver';
+import { formatConflicts } from './ComponentConflict';
+import type { ComponentConflict as Conflict, ComponentRenamer as Renamer } from './ComponentConflict';
+import { sortComponents } from './ComponentOrder';
+import { dereference } from './Dereferencer';
+import type {
+  Dereferenced as DereferencedResult,
+  RecursiveRef as Recursive,
+  RefLocator as Locator,
+} from './Dereferencer';
+import { formatDiagnostic, ResolutionError } from './Diagnostics';
+import type { Diagnostic as DiagnosticType } from './Diagnostics';
+import { DocumentCache } from './DocumentCache';
+import { defaultLoaders } from './DocumentLoader';
+import type { DocumentLoader as Loader, DocumentLoaders as Loaders, LoadedDocument as Loaded } from './DocumentLoader';
+import { documentFormatFor, parseDocument } from './DocumentParser';
+import type { DocumentFormat as InputFormat } from './DocumentParser';
+import { defaultMarkerPlacement, stripMarkers } from './Markers';
+import type {
+  MarkerContext as Context,
+  MarkerKind as Kind,
+  MarkerOptions as Markers,
+  MarkerPlacement as Placement,
+  ProvenanceProvider as Provenance,
+  StripOptions as Strip,
+} from './Markers';
+import { ReferenceGraph } from './ReferenceGraph';
+import type { GraphEdge as Edge, GraphFormat as Format, GraphNode as Node, RefSite as Site } from './ReferenceGraph';
+import { findUsages, formatUsages } from './ReverseDependencies';
+import type { RootUsage as Usage, UsageReport as Report } from './ReverseDependencies';
+import type { SourceLocation as Location, SourceMap as Map } from './SourceMap';
+import { outputFormatFor, serialize } from './Serializer';
+import type { OutputFormat as Output, SerializeOptions as Serialize } from './Serializer';
+import { removeUnusedComponents } from './TreeShaker';
+import { toYaml } from './YamlOutput';
+import type { DumpOptions as Dump, YamlOutputOptions as YamlOutput } from './YamlOutput';
+module.exports = {
+  ApiRefResolver,
+  batchOutputPaths,
+  defaultLoaders,
+  defaultMarkerPlacement,
+  dereference,
+  DocumentCache,
+  documentFormatFor,
+  findUsages,
+  formatBatchReport,
+  formatConflicts,
+  formatDiagnostic,
+  formatUsages,
+  outputFormatFor,
+  parseDocument,
+  ReferenceGraph,
+  removeUnusedComponents,
+  ResolutionError,
+  resolveAll,
+  serialize,
+  sortComponents,
+  stripMarkers,
+  toYaml,
+};
 export type ApiRefOptions = Options;
 export type ApiRefResolution = Resolution;
+export type DocumentLoader = Loader;
+export type DocumentLoaders = Loaders;
+export type LoadedDocument = Loaded;
+export type DocumentFormat = InputFormat;
+export type SourceLocation = Location;
+export type SourceMap = Map;
+export type Diagnostic = DiagnosticType;
+export type ComponentConflict = Conflict;
+export type ComponentRenamer = Renamer;
+export type GraphEdge = Edge;
+export type GraphFormat = Format;
+export type GraphNode = Node;
+export type RefSite = Site;
+export type RootUsage = Usage;
+export type UsageReport = Report;
+export type Dereferenced = DereferencedResult;
+export type RecursiveRef = Recursive;
+export type RefLocator = Locator;
+export type MarkerContext = Context;
+export type MarkerKind = Kind;
+export type MarkerOptions = Markers;
+export type MarkerPlacement = Placement;
+export type ProvenanceProvider = Provenance;
+export type StripOptions = Strip;
+export type DumpOptions = Dump;
+export type YamlOutputOptions = YamlOutput;
+export type OutputFormat = Output;
+export type SerializeOptions = Serialize;
+export type BatchOptions = Batch;
+export type BatchReport = BatchSummary;
+export type RootResult = Result;
@@ -6,5 +6,5 @@ if [[ ! -f components.yaml ]]
 then cd test/data/readme-example
 fi
 
-# Run the CLI then filter the file:// URLs for better README.
-node ../../../lib/src/cli.js -i api.yaml | sed 's@file:///.*test/data/readme-example/@@' | tee resolved-api.yaml
+# Run the CLI; the x-resolved-from markers are relative to api.yaml
+node ../../../lib/src/cli.js -i api.yaml | tee resolved-api.yaml
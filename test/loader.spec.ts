@@ -0,0 +1,219 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import * as fs from 'fs';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import * as os from 'os';
+import * as path from 'path';
+
+import { afterAll, beforeAll, describe, expect, test } from '@jest/globals';
+import * as fse from 'fs-extra';
+
+import { ApiRefResolver, ApiRefOptions } from '../src/ApiRefResolver';
+import { readDocumentFromUrl, readFromUrl } from '../src/DocumentLoader';
+
+const apiYaml = `
+openapi: 3.1.0
+paths:
+  /thing:
+    get:
+      responses:
+        '200':
+          description: OK
+          content:
+            application/json:
+              schema:
+                $ref: 'common.yaml#/components/schemas/thing'
+`;
+
+const commonYaml = `
+components:
+  schemas:
+    thing:
+      title: Thing
+      description: A thing.
+      type: object
+`;
+
+const missingYaml = `
+openapi: 3.1.0
+paths:
+  /thing:
+    get:
+      responses:
+        '404':
+          $ref: 'missing.yaml#/components/responses/404'
+`;
+
+describe('http loader', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let etagRequests = 0;
+  let etagNotModified = 0;
+
+  beforeAll((done) => {
+    server = http.createServer((request, response) => {
+      switch (request.url) {
+        case '/api.yaml':
+          response.end(apiYaml);
+          break;
+        case '/common.yaml':
+          response.writeHead(302, { location: '/moved/common.yaml' });
+          response.end();
+          break;
+        case '/moved/common.yaml':
+          response.end(commonYaml);
+          break;
+        case '/missing-api.yaml':
+          response.end(missingYaml);
+          break;
+        case '/private.yaml':
+          if (request.headers.authorization === 'Bearer token') {
+            response.end(commonYaml);
+          } else {
+            response.writeHead(401, 'Unauthorized');
+            response.end('<html><body>Unauthorized</body></html>');
+          }
+          break;
+        case '/slow.yaml':
+          setTimeout(() => response.end(commonYaml), 500);
+          break;
+        case '/trickle.yaml': {
+          // sends a line every 20ms for 500ms, so the socket is never idle
+          const lines = commonYaml.split('\n');
+          const interval = setInterval(() => {
+            if (lines.length > 1 && !response.destroyed) {
+              response.write(`${lines.shift()}\n`);
+            }
+          }, 20);
+          setTimeout(() => {
+            clearInterval(interval);
+            response.end(lines.join('\n'));
+          }, 500);
+          break;
+        }
+        case '/etag.yaml':
+          etagRequests += 1;
+          if (request.headers['if-none-match'] === '"v1"') {
+            etagNotModified += 1;
+            response.writeHead(304);
+            response.end();
+          } else {
+            response.writeHead(200, { etag: '"v1"' });
+            response.end(commonYaml);
+          }
+          break;
+        case '/api':
+          response.writeHead(200, { 'content-type': 'application/json; charset=utf-8' });
+          response.end('{ "openapi": "3.1.0", }');
+          break;
+        case '/loop.yaml':
+          response.writeHead(301, { location: '/loop.yaml' });
+          response.end();
+          break;
+        default:
+          response.writeHead(404, 'Not Found', { 'content-type': 'text/html' });
+          response.end('<html><body>Not found</body></html>');
+      }
+    });
+    server.listen(0, '127.0.0.1', () => {
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+      done();
+    });
+  });
+
+  afterAll((done) => {
+    server.close(() => done());
+  });
+
+  test('resolves http: documents and follows redirects', async () => {
+    const resolver = new ApiRefResolver(`${baseUrl}/api.yaml`);
+    const result = await resolver.resolve();
+    const resolved = result.api as any;
+    expect(resolved.components.schemas.thing.title).toEqual('Thing');
+  });
+
+  test('parses a document by its content type', async () => {
+    const url = new URL(`${baseUrl}/api`);
+    expect((await readDocumentFromUrl(url)).contentType).toEqual('application/json; charset=utf-8');
+    await expect(new ApiRefResolver(url).resolve()).rejects.toThrow(
+      `Cannot parse ${baseUrl}/api: invalid JSON: property name expected`,
+    );
+  });
+
+  test('rejects a non-2xx response and names the $ref', async () => {
+    const resolver = new ApiRefResolver(`${baseUrl}/missing-api.yaml`);
+    await expect(resolver.resolve()).rejects.toThrow(
+      `Cannot resolve $ref 'missing.yaml#/components/responses/404' at #/paths/~1thing/get/responses/404: HTTP 404 Not Found fetching ${baseUrl}/missing.yaml`,
+    );
+  });
+
+  test('sends request headers', async () => {
+    const url = new URL(`${baseUrl}/private.yaml`);
+    await expect(readFromUrl(url)).rejects.toThrow('HTTP 401 Unauthorized');
+    const options: ApiRefOptions = { requestHeaders: { authorization: 'Bearer token' } };
+    expect(await readFromUrl(url, options)).toEqual(commonYaml);
+  });
+
+  test('times out slow responses', async () => {
+    const options: ApiRefOptions = { timeout: 50 };
+    await expect(readFromUrl(new URL(`${baseUrl}/slow.yaml`), options)).rejects.toThrow('Timed out after 50ms');
+  });
+
+  test('times out responses which arrive too slowly', async () => {
+    const options: ApiRefOptions = { timeout: 100 };
+    await expect(readFromUrl(new URL(`${baseUrl}/trickle.yaml`), options)).rejects.toThrow('Timed out after 100ms');
+  });
+
+  test('limits redirects', async () => {
+    await expect(readFromUrl(new URL(`${baseUrl}/loop.yaml`))).rejects.toThrow('Too many redirects');
+  });
+
+  describe('remote document cache', () => {
+    let cacheDir: string;
+
+    beforeAll(() => {
+      cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), 'arr-cache-'));
+    });
+
+    afterAll(() => {
+      fse.removeSync(cacheDir);
+    });
+
+    test('revalidates cached documents with their ETag', async () => {
+      const url = new URL(`${baseUrl}/etag.yaml`);
+      const options: ApiRefOptions = { cacheDir };
+      expect(await readFromUrl(url, options)).toEqual(commonYaml);
+      expect(await readFromUrl(url, options)).toEqual(commonYaml);
+      expect(etagRequests).toEqual(2);
+      expect(etagNotModified).toEqual(1);
+    });
+
+    test('offline mode reads only from the cache', async () => {
+      const options: ApiRefOptions = { cacheDir, offline: true };
+      const requests = etagRequests;
+      expect(await readFromUrl(new URL(`${baseUrl}/etag.yaml#/components`), options)).toEqual(commonYaml);
+      expect(etagRequests).toEqual(requests);
+      await expect(readFromUrl(new URL(`${baseUrl}/api.yaml`), options)).rejects.toThrow(
+        `Offline mode: ${baseUrl}/api.yaml is not in the cache ${cacheDir}`,
+      );
+    });
+
+    test('keeps separate copies for different request headers', async () => {
+      const url = new URL(`${baseUrl}/private.yaml`);
+      const authorized: ApiRefOptions = { cacheDir, requestHeaders: { Authorization: 'Bearer token' } };
+      expect(await readFromUrl(url, authorized)).toEqual(commonYaml);
+      await expect(readFromUrl(url, { cacheDir, offline: true })).rejects.toThrow('is not in the cache');
+      await expect(
+        readFromUrl(url, { cacheDir, offline: true, requestHeaders: { authorization: 'Bearer other' } }),
+      ).rejects.toThrow('is not in the cache');
+      expect(await readFromUrl(url, { ...authorized, offline: true })).toEqual(commonYaml);
+    });
+
+    test('offline mode requires a cache directory', async () => {
+      const options: ApiRefOptions = { offline: true };
+      await expect(readFromUrl(new URL(`${baseUrl}/api.yaml`), options)).rejects.toThrow(
+        'in offline mode without a cache directory',
+      );
+    });
+  });
+});
@@ -1,6 +1,7 @@
 /* eslint-disable prefer-destructuring */
 import * as fs from 'fs';
 import * as path from 'path';
+import { pathToFileURL } from 'url';
 
 /* eslint-disable @typescript-eslint/no-explicit-any */
 
@@ -8,6 +9,17 @@ import { describe, expect, test, xit } from '@jest/globals';
 import * as yaml from 'js-yaml';
 
 import { ApiRefResolver, ApiRefOptions } from '../src/ApiRefResolver';
+import { batchOutputPaths, formatBatchReport, resolveAll } from '../src/BatchResolver';
+import { formatConflicts } from '../src/ComponentConflict';
+import { formatDiagnostic, ResolutionError } from '../src/Diagnostics';
+import { DocumentCache } from '../src/DocumentCache';
+import { readFromFile } from '../src/DocumentLoader';
+import { JsonNavigation } from '../src/JsonNavigation';
+import { stripMarkers } from '../src/Markers';
+import { findUsages, formatUsages } from '../src/ReverseDependencies';
+import { outputFormatFor } from '../src/Serializer';
+import { removeUnusedComponents } from '../src/TreeShaker';
+import { toYaml } from '../src/YamlOutput';
 
 describe('resolver test suite', () => {
   test('resolves file with no external $ref results in same object', (done) => {
@@ -313,6 +325,94 @@ describe('resolver conflict policies', () => {
       });
   });
 
+  test('conflict rename policy reports the renamed component', async () => {
+    const sourceFileName = path.join(__dirname, 'data/conflict/api.yaml');
+    const resolver = new ApiRefResolver(sourceFileName);
+    const result = await resolver.resolve({ conflictStrategy: 'rename' });
+    expect(result.conflicts).toEqual([
+      {
+        section: 'schemas',
+        originalName: 'health',
+        newName: 'health1',
+        existingUrl: `${pathToFileURL(sourceFileName).href}#/components/schemas/health`,
+        url: `${pathToFileURL(path.join(__dirname, 'data/root.yaml')).href}#/components/schemas/health`,
+        strategy: 'rename',
+      },
+    ]);
+    const table = formatConflicts(result.conflicts).split('\n');
+    expect(table[0]).toMatch(/^Section +Component +Renamed to +Strategy +Existing from +Conflicting from$/);
+    expect(table[2]).toMatch(/^schemas +health +health1 +rename +/);
+  });
+
+  test('namespace rename policy prefixes the name with the source file name or its alias', async () => {
+    const sourceFileName = path.join(__dirname, 'data/conflict/api.yaml');
+    const namespaced = await new ApiRefResolver(sourceFileName).resolve({
+      conflictStrategy: 'rename',
+      renamePolicy: 'namespace',
+    });
+    expect(Object.keys((namespaced.api as any).components.schemas)).toContain('RootHealth');
+    const aliased = await new ApiRefResolver(sourceFileName).resolve({
+      conflictStrategy: 'rename',
+      renamePolicy: 'namespace',
+      namespaces: { '../root.yaml': 'Common' },
+    });
+    const schemas = (aliased.api as any).components.schemas;
+    expect(schemas.CommonHealth).toBeDefined();
+    expect(aliased.conflicts[0].newName).toEqual('CommonHealth');
+  });
+
+  test('custom rename policy names the component, with a suffix if the name is in use', async () => {
+    const sourceFileName = path.join(__dirname, 'data/conflict/api.yaml');
+    const result = await new ApiRefResolver(sourceFileName).resolve({
+      conflictStrategy: 'rename',
+      renamePolicy: (context) => (context.existingNames.includes(context.componentName) ? 'health' : 'unused'),
+    });
+    expect(result.conflicts[0].newName).toEqual('health1');
+    expect((result.api as any).components.schemas.health1).toBeDefined();
+  });
+
+  test('resolution without conflicts has an empty conflicts list', async () => {
+    const resolver = new ApiRefResolver(path.join(__dirname, 'data/api-c/api.yaml'));
+    const result = await resolver.resolve({ conflictStrategy: 'rename' });
+    expect(result.conflicts).toEqual([]);
+  });
+
+  test('a component whose name is URI-encoded does not conflict with itself', async () => {
+    const sourceFileName = path.join(__dirname, 'data/encoded-names/api.yaml');
+    const result = await new ApiRefResolver(sourceFileName).resolve({ conflictStrategy: 'error' });
+    const resolved = result.api as any;
+    expect(result.conflicts).toEqual([]);
+    expect(Object.keys(resolved.components.schemas)).toEqual(['café']);
+    expect(resolved.paths['/cafe'].put.requestBody.content['application/json'].schema.$ref).toEqual(
+      '#/components/schemas/café',
+    );
+  });
+
+  test('conflict dedupe policy reuses identical components and renames different ones', async () => {
+    const sourceFileName = path.join(__dirname, 'data/dedupe/api.yaml');
+    const resolver = new ApiRefResolver(sourceFileName);
+    const result = await resolver.resolve({ conflictStrategy: 'dedupe' });
+    const resolved = result.api as any;
+    const schemas = Object.keys(resolved.components.schemas).sort();
+    expect(schemas).toEqual(['apiProblem', 'problemResponse', 'thing', 'thing1']);
+    const responseSchema = (pathName: string, code: string) =>
+      resolved.paths[pathName].get.responses[code].content['application/json'].schema.$ref;
+    expect(responseSchema('/a', '400')).toEqual('#/components/schemas/problemResponse');
+    expect(responseSchema('/b', '400')).toEqual('#/components/schemas/problemResponse');
+    expect(responseSchema('/b', '200')).toEqual('#/components/schemas/thing1');
+    expect(result.conflicts.map((conflict) => [conflict.originalName, conflict.newName, conflict.strategy])).toEqual([
+      ['thing', 'thing1', 'rename'],
+      ['problemResponse', 'problemResponse', 'dedupe'],
+    ]);
+  });
+
+  test('conflict dedupe policy uses the dedupeFallback policy for different components', async () => {
+    const sourceFileName = path.join(__dirname, 'data/dedupe/api.yaml');
+    const resolver = new ApiRefResolver(sourceFileName);
+    const options: ApiRefOptions = { conflictStrategy: 'dedupe', dedupeFallback: 'error' };
+    await expect(resolver.resolve(options)).rejects.toThrow('Cannot embed component components,schemas,thing');
+  });
+
   test('conflict error policy throws an exception', async () => {
     const sourceFileName = path.join(__dirname, 'data/conflict/api.yaml'); // __dirname is the test dir
     const original = yaml.load(fs.readFileSync(sourceFileName, 'utf8'), {
@@ -325,3 +425,790 @@ describe('resolver conflict policies', () => {
     await expect(resolver.resolve(options)).rejects.toThrow('Cannot embed component components,schemas,health');
   });
 });
+
+describe('document loaders', () => {
+  const memDocuments = {
+    'mem:/apis/api.yaml': `
+openapi: 3.1.0
+paths:
+  /thing:
+    get:
+      responses:
+        '200':
+          description: OK
+          content:
+            application/json:
+              schema:
+                $ref: '../common/schemas.yaml#/components/schemas/thing'
+`,
+    'mem:/common/schemas.yaml': `
+components:
+  schemas:
+    thing:
+      title: Thing
+      description: A thing.
+      type: object
+`,
+  };
+  const memLoader = async (url: URL): Promise<string> => {
+    const key = new URL(url.href);
+    key.hash = '';
+    const text = memDocuments[key.href];
+    if (text === undefined) {
+      throw new Error(`no such document ${key.href}`);
+    }
+    return text;
+  };
+
+  test('resolves documents using a loader registered by URL scheme', async () => {
+    const resolver = new ApiRefResolver('mem:/apis/api.yaml');
+    const options: ApiRefOptions = { loaders: { mem: memLoader } };
+    const result = await resolver.resolve(options);
+    const resolved = result.api as any;
+    expect(resolved.components.schemas.thing.title).toEqual('Thing');
+    const schema = resolved.paths['/thing'].get.responses['200'].content['application/json'].schema;
+    expect(schema.$ref).toEqual('#/components/schemas/thing');
+  });
+
+  test('rejects URLs which have no loader', async () => {
+    const resolver = new ApiRefResolver('mem:/apis/api.yaml');
+    await expect(resolver.resolve()).rejects.toThrow('No document loader for mem: URL mem:/apis/api.yaml');
+  });
+
+  test('lists the documents that were read and reads only invalidated documents again', async () => {
+    const loaded: string[] = [];
+    const countingLoader = async (url: URL): Promise<string> => {
+      loaded.push(ApiRefResolver.urlNonFragment(url).href);
+      return memLoader(url);
+    };
+    const documentCache = new DocumentCache();
+    const options: ApiRefOptions = { loaders: { mem: countingLoader }, documentCache, noMarkers: true };
+    const first = await new ApiRefResolver('mem:/apis/api.yaml').resolve(options);
+    expect(first.documents).toEqual(['mem:/apis/api.yaml', 'mem:/common/schemas.yaml']);
+    expect(loaded).toHaveLength(2);
+
+    const second = await new ApiRefResolver('mem:/apis/api.yaml').resolve(options);
+    expect(loaded).toHaveLength(2);
+    expect(second.api).toEqual(first.api);
+
+    documentCache.invalidate(new URL('mem:/common/schemas.yaml'));
+    await new ApiRefResolver('mem:/apis/api.yaml').resolve(options);
+    expect(loaded.slice(2)).toEqual(['mem:/common/schemas.yaml']);
+  });
+});
+
+describe('source map', () => {
+  test('maps resolved elements to their source document, pointer, line and column', async () => {
+    const sourceFileName = path.join(__dirname, 'data/readme-example/api.yaml');
+    const componentsUrl = pathToFileURL(path.join(__dirname, 'data/readme-example/components.yaml')).href;
+    const resolver = new ApiRefResolver(sourceFileName);
+    const result = await resolver.resolve({ sourceMap: true });
+    const sourceMap = result.sourceMap;
+    expect(sourceMap).toBeDefined();
+    expect(sourceMap['/paths/~1thing']).toEqual({
+      source: pathToFileURL(sourceFileName).href,
+      pointer: '/paths/~1thing',
+      line: 5,
+      column: 3,
+    });
+    expect(sourceMap['/paths/~1health/get/tags/0']).toEqual({
+      source: componentsUrl,
+      pointer: '/paths/~1health/get/tags/0',
+      line: 7,
+      column: 11,
+    });
+    expect(sourceMap['/components/schemas/health/properties/status']).toEqual({
+      source: componentsUrl,
+      pointer: '/components/schemas/health/properties/status',
+      line: 29,
+      column: 9,
+    });
+    expect(sourceMap['/components/schemas/health/x-resolved-from']).toBeUndefined();
+  });
+
+  test('source map is omitted unless requested', async () => {
+    const resolver = new ApiRefResolver(path.join(__dirname, 'data/readme-example/api.yaml'));
+    const result = await resolver.resolve();
+    expect(result.sourceMap).toBeUndefined();
+  });
+});
+
+describe('diagnostics', () => {
+  test('collects a diagnostic for each $ref that cannot be resolved', async () => {
+    const sourceFileName = path.join(__dirname, 'data/diagnostics/api.yaml');
+    const documentUrl = pathToFileURL(sourceFileName).href;
+    const resolver = new ApiRefResolver(sourceFileName);
+    const error = (await resolver.resolve().catch((ex) => ex)) as ResolutionError;
+    expect(error).toBeInstanceOf(ResolutionError);
+    const diagnostics = error.diagnostics;
+    expect(diagnostics.map((diagnostic) => diagnostic.code)).toEqual(['load-error', 'invalid-pointer', 'parse-error']);
+    expect(diagnostics[0]).toMatchObject({
+      severity: 'error',
+      ref: 'missing.yaml#/components/schemas/thing',
+      document: documentUrl,
+      pointer: '/paths/~1thing/get/responses/200/content/application~1json/schema',
+      line: 15,
+      column: 15,
+      targetUrl: pathToFileURL(path.join(__dirname, 'data/diagnostics/missing.yaml')).href,
+    });
+    expect(diagnostics[1]).toMatchObject({
+      ref: '../api-a/api.yaml#/components/responses/nope',
+      document: documentUrl,
+      line: 17,
+    });
+    expect(diagnostics[2]).toMatchObject({
+      ref: 'malformed.yaml#/components/responses/422',
+      document: pathToFileURL(path.join(__dirname, 'data/diagnostics/malformed.yaml')).href,
+      line: 6,
+      column: 1,
+    });
+    // other $ref objects are still resolved
+    const resolved = error.resolution.api as any;
+    expect(resolved.components.schemas.range.type).toEqual('object');
+    expect(resolved.paths['/thing'].get.responses['400'].$ref).toEqual('../api-a/api.yaml#/components/responses/nope');
+  });
+
+  test('formats diagnostics as file:line:column', () => {
+    const document = pathToFileURL(path.join(process.cwd(), 'api.yaml')).href;
+    expect(
+      formatDiagnostic({ code: 'load-error', severity: 'error', message: 'Cannot load', document, line: 3, column: 7 }),
+    ).toEqual('api.yaml:3:7: error load-error: Cannot load');
+  });
+
+  test('a successful resolution has no diagnostics', async () => {
+    const resolver = new ApiRefResolver(path.join(__dirname, 'data/api-b/api.yaml'));
+    const result = await resolver.resolve();
+    expect(result.diagnostics).toEqual([]);
+  });
+});
+
+describe('dangling references', () => {
+  const sourceFileName = path.join(__dirname, 'data/dangling/api.yaml');
+
+  test('local $ref to a missing element is an error with the danglingRefs: error option', async () => {
+    const resolver = new ApiRefResolver(sourceFileName);
+    const error = (await resolver.resolve({ danglingRefs: 'error' }).catch((ex) => ex)) as ResolutionError;
+    expect(error).toBeInstanceOf(ResolutionError);
+    expect(error.diagnostics).toEqual([
+      {
+        code: 'dangling-ref',
+        severity: 'error',
+        message:
+          "$ref '#/components/schemas/thingg' at #/paths/~1thing/get/responses/200/content/application~1json/schema does not refer to an element of the resolved document",
+        ref: '#/components/schemas/thingg',
+        document: pathToFileURL(sourceFileName).href,
+        pointer: '/paths/~1thing/get/responses/200/content/application~1json/schema',
+        line: 15,
+        column: 15,
+      },
+    ]);
+  });
+
+  test('local $ref to a missing element is a warning by default', async () => {
+    const resolver = new ApiRefResolver(sourceFileName);
+    const result = await resolver.resolve();
+    expect(result.diagnostics.map((diagnostic) => [diagnostic.code, diagnostic.severity])).toEqual([
+      ['dangling-ref', 'warning'],
+    ]);
+    expect((result.api as any).components.schemas.problemResponse).toBeDefined();
+  });
+
+  test('unresolvable external references are errors by default', async () => {
+    const resolver = new ApiRefResolver(path.join(__dirname, 'data/diagnostics/api.yaml'));
+    const error = (await resolver.resolve().catch((ex) => ex)) as ResolutionError;
+    expect(error.diagnostics.map((diagnostic) => [diagnostic.code, diagnostic.severity])).toEqual([
+      ['load-error', 'error'],
+      ['invalid-pointer', 'error'],
+      ['parse-error', 'error'],
+    ]);
+  });
+
+  test('unresolvable external references are warnings with the danglingRefs: warning option', async () => {
+    const resolver = new ApiRefResolver(path.join(__dirname, 'data/diagnostics/api.yaml'));
+    const error = (await resolver.resolve({ danglingRefs: 'warning' }).catch((ex) => ex)) as ResolutionError;
+    expect(error.diagnostics.map((diagnostic) => [diagnostic.code, diagnostic.severity])).toEqual([
+      ['load-error', 'warning'],
+      ['invalid-pointer', 'warning'],
+      ['parse-error', 'error'],
+    ]);
+  });
+});
+
+describe('reference graph', () => {
+  const dataUrl = (file: string) => pathToFileURL(path.join(__dirname, 'data', file)).href;
+
+  test('counts references between documents and components and finds cycles', async () => {
+    const graph = await new ApiRefResolver(path.join(__dirname, 'data/api-c/api.yaml')).graph();
+    expect(graph.diagnostics).toEqual([]);
+    const edges = graph.edges();
+    expect(edges).toContainEqual({
+      from: dataUrl('api-c/api.yaml'),
+      to: `${dataUrl('api-c/api.yaml')}#/components/schemas/derivedThing`,
+      count: 2,
+      cyclic: false,
+    });
+    expect(edges).toContainEqual({
+      from: dataUrl('schemas/percentageRange.yaml'),
+      to: dataUrl('schemas/percentage.yaml'),
+      count: 2,
+      cyclic: false,
+    });
+    const apiProblem = `${dataUrl('api-a/api.yaml')}#/components/schemas/apiProblem`;
+    expect(graph.cycles()).toEqual([[apiProblem]]);
+    expect(edges.filter((edge) => edge.cyclic)).toEqual([{ from: apiProblem, to: apiProblem, count: 1, cyclic: true }]);
+    expect(graph.nodes().find((node) => node.id === apiProblem)).toEqual({
+      id: apiProblem,
+      document: dataUrl('api-a/api.yaml'),
+      component: '/components/schemas/apiProblem',
+    });
+  });
+
+  test('formats the graph as dot, json, or mermaid', async () => {
+    const graph = await new ApiRefResolver(path.join(__dirname, 'data/api-c/api.yaml')).graph();
+    const dot = graph.format('dot');
+    expect(dot).toMatch(/^digraph api {/);
+    expect(dot).toMatch(/n(\d+) -> n\1 \[label="1", color=red, fontcolor=red\];/);
+    expect(JSON.parse(graph.format('json')).cycles).toEqual(graph.cycles());
+    const mermaid = graph.format('mermaid');
+    expect(mermaid).toMatch(/^flowchart LR/);
+    expect(mermaid).toMatch(/linkStyle \d+ stroke:red,color:red$/);
+  });
+
+  test('reports documents which cannot be read or parsed', async () => {
+    const graph = await new ApiRefResolver(path.join(__dirname, 'data/diagnostics/api.yaml')).graph();
+    expect(graph.diagnostics.map((diagnostic) => [diagnostic.code, diagnostic.severity])).toEqual([
+      ['load-error', 'warning'],
+      ['parse-error', 'warning'],
+    ]);
+    expect(graph.nodes().map((node) => node.id)).toContain(dataUrl('diagnostics/missing.yaml'));
+  });
+});
+
+describe('reverse dependencies', () => {
+  const dataFile = (file: string) => path.join(__dirname, 'data', file);
+  const dataUrl = (file: string) => pathToFileURL(dataFile(file)).href;
+
+  test('lists the roots and $ref sites which use a document, directly or through a chain', async () => {
+    const roots = ['api-a/api.yaml', 'api-x/api.yaml', 'root.yaml'].map(dataFile);
+    const report = await findUsages(roots, dataFile('schemas/percentage.yaml'));
+    expect(report.roots.map((usage) => usage.root)).toEqual([dataUrl('api-a/api.yaml'), dataUrl('api-x/api.yaml')]);
+    const apiX = report.roots[1].sites.map((site) => `${site.fromUrl}#${site.fromPointer}`);
+    expect(apiX).toEqual([
+      `${dataUrl('api-x/api.yaml')}#/components/schemas/percent`,
+      `${dataUrl('api-x/api.yaml')}#/components/schemas/range`,
+      `${dataUrl('schemas/percentageRange.yaml')}#/properties/low`,
+      `${dataUrl('schemas/percentageRange.yaml')}#/properties/high`,
+    ]);
+    expect(formatUsages(report).split('\n')[0]).toMatch(/percentage.yaml is used by 2 API document\(s\)$/);
+  });
+
+  test('matches a component and the $ref objects which reach it from other documents', async () => {
+    const report = await findUsages(
+      [dataFile('api-c/api.yaml')],
+      `${dataFile('api-a/api.yaml')}#/components/schemas/apiProblem`,
+    );
+    const refs = report.roots[0].sites.map((site) => site.ref);
+    expect(refs).toContain('../api-a/api.yaml#/components/responses/400');
+    expect(refs).toContain('#/components/schemas/apiProblem');
+    expect(refs).not.toContain('#/components/schemas/derivedThing');
+  });
+});
+
+describe('remove unused components', () => {
+  const sourceFileName = path.join(__dirname, 'data/unused/api.yaml');
+
+  test('removeUnused keeps only components reachable from paths and the kept sections', async () => {
+    const result = await new ApiRefResolver(sourceFileName).resolve({ removeUnused: true });
+    const components = (result.api as any).components;
+    expect(Object.keys(components.schemas).sort()).toEqual([
+      'apiProblem',
+      'base',
+      'cat',
+      'dog',
+      'pet',
+      'pets',
+      'problemResponse',
+    ]);
+    expect(Object.keys(components.responses)).toEqual(['400']);
+    expect(components.parameters).toBeUndefined();
+    expect(Object.keys(components.securitySchemes)).toEqual(['apiKey']);
+  });
+
+  test('without removeUnused, unreferenced components are kept', async () => {
+    const result = await new ApiRefResolver(sourceFileName).resolve();
+    const components = (result.api as any).components;
+    expect(components.schemas.internalThing).toBeDefined();
+    expect(components.schemas.internalRange).toBeDefined();
+    expect(components.parameters.unusedParam).toBeDefined();
+  });
+
+  test('returns the removed components and honors keepSections', () => {
+    const api = {
+      paths: {},
+      components: { parameters: { p: { name: 'p', in: 'query' } }, securitySchemes: { apiKey: { type: 'apiKey' } } },
+    };
+    expect(removeUnusedComponents(api, ['parameters'])).toEqual(['/components/securitySchemes/apiKey']);
+    expect(Object.keys(api.components)).toEqual(['parameters']);
+  });
+});
+
+describe('dereference mode', () => {
+  const sourceFileName = path.join(__dirname, 'data/api-c/api.yaml');
+  const refsIn = (node: any, at = '#'): string[] => {
+    if (node === null || typeof node !== 'object') {
+      return [];
+    }
+    const refs = typeof node.$ref === 'string' ? [`${at}: ${node.$ref}`] : [];
+    return refs.concat(...Object.keys(node).map((key) => refsIn(node[key], `${at}/${key}`)));
+  };
+
+  test('replaces local $ref objects with copies and keeps recursive $ref objects', async () => {
+    const result = await new ApiRefResolver(sourceFileName).resolve({ mode: 'dereference' });
+    const resolved = result.api as any;
+    const schema = resolved.paths['/derivedThing'].patch.requestBody.content['application/json'].schema;
+    expect(schema.title).toEqual(resolved.components.schemas.derivedThing.title);
+    expect(schema).not.toBe(resolved.components.schemas.derivedThing);
+    const refs = refsIn(resolved);
+    expect(refs.length).toBeGreaterThan(0);
+    refs.forEach((ref) => expect(ref).toMatch(/\/errors\/items: #\/components\/schemas\/apiProblem$/));
+  });
+
+  test('recursiveRefs error reports recursive $ref objects', async () => {
+    const resolver = new ApiRefResolver(sourceFileName);
+    const error: ResolutionError = await resolver
+      .resolve({ mode: 'dereference', recursiveRefs: 'error' })
+      .then(() => undefined)
+      .catch((ex) => ex);
+    expect(error).toBeInstanceOf(ResolutionError);
+    expect(error.diagnostics[0].code).toEqual('recursive-ref');
+    expect(error.message).toMatch(/^Recursive \$ref '#\/components\/schemas\/apiProblem' at #\/.*\/errors\/items/);
+    expect(formatDiagnostic(error.diagnostics[0])).toMatch(/api-a\/api.yaml:\d+:\d+: error recursive-ref: /);
+  });
+});
+
+describe('hoist fragments', () => {
+  const sourceFileName = path.join(__dirname, 'data/hoist/api.yaml');
+
+  test('hoistFragments adds referenced fragments as components in the inferred section', async () => {
+    const result = await new ApiRefResolver(sourceFileName).resolve({ hoistFragments: true });
+    const resolved = result.api as any;
+    const schemaRef = '#/components/schemas/thingsGetResponses200Schema';
+    expect(resolved.paths['/things'].get.responses['200'].content['application/json'].schema).toEqual({
+      $ref: schemaRef,
+    });
+    expect(resolved.paths['/otherThings'].get.responses['200'].content['application/json'].schema).toEqual({
+      $ref: schemaRef,
+    });
+    expect(resolved.paths['/things'].get.parameters[0]).toEqual({
+      $ref: '#/components/parameters/thingsGetParameters0',
+    });
+    const schema = resolved.components.schemas.thingsGetResponses200Schema;
+    expect(schema.title).toEqual('Things');
+    expect(schema['x-resolved-from']).toEqual(
+      'lib.yaml#/paths/~1things/get/responses/200/content/application~1json/schema',
+    );
+    expect(resolved.components.parameters.thingsGetParameters0.name).toEqual('limit');
+    // a path item has no components section, so it is copied
+    expect(resolved.paths['/health'].get.operationId).toEqual('apiHealth');
+  });
+
+  test('without hoistFragments, fragments are copied', async () => {
+    const result = await new ApiRefResolver(sourceFileName).resolve();
+    const resolved = result.api as any;
+    expect(resolved.paths['/things'].get.responses['200'].content['application/json'].schema.title).toEqual('Things');
+    expect(resolved.components?.schemas?.thingsGetResponses200Schema).toBeUndefined();
+  });
+});
+
+describe('schema identifiers', () => {
+  const sourceFileName = path.join(__dirname, 'data/schema-ids/api.yaml');
+
+  test('resolves $ref objects against $id base URIs and to anchors', async () => {
+    const result = await new ApiRefResolver(sourceFileName).resolve({ noMarkers: true });
+    const resolved = result.api as any;
+    const schemaAt = (path: string, method = 'get') =>
+      resolved.paths[path][method].responses['200'].content['application/json'].schema;
+    expect(schemaAt('/things')).toEqual({ $ref: '#/components/schemas/thing' });
+    expect(resolved.paths['/things'].post.requestBody.content['application/json'].schema).toEqual({
+      $ref: '#/components/schemas/label',
+    });
+    expect(schemaAt('/sizes')).toEqual({ $ref: '#/components/schemas/size' });
+    expect(schemaAt('/colors')).toEqual({ $ref: '#/components/schemas/thing/$defs/color' });
+    // within the thing schema resource, $ref objects are relative to its $id
+    expect(resolved.components.schemas.thing.properties).toEqual({
+      size: { $ref: 'https://schemas.example.com/size' },
+      color: { $ref: 'https://schemas.example.com/thing#color' },
+      shade: { $ref: 'https://schemas.example.com/thing#/$defs/color' },
+    });
+    expect(resolved.components.schemas.size).toEqual({ $id: 'https://schemas.example.com/size', type: 'integer' });
+    expect(result.diagnostics).toEqual([]);
+  });
+
+  test('$ref objects to the $id of a schema from another document are not dangling', async () => {
+    const thingApi = path.join(__dirname, 'data/schema-ids/thing-api.yaml');
+    const result = await new ApiRefResolver(thingApi).resolve({ noMarkers: true, danglingRefs: 'error' });
+    const schemas = (result.api as any).components.schemas;
+    expect(schemas.thing.properties.size).toEqual({ $ref: 'https://schemas.example.com/size' });
+    expect(schemas.size).toEqual({ $id: 'https://schemas.example.com/size', type: 'integer' });
+    expect(result.diagnostics).toEqual([]);
+  });
+
+  test('removeUnused keeps the components that $ref objects reach by $id', async () => {
+    const thingApi = path.join(__dirname, 'data/schema-ids/thing-api.yaml');
+    const result = await new ApiRefResolver(thingApi).resolve({ noMarkers: true, removeUnused: true });
+    const schemas = (result.api as any).components.schemas;
+    expect(Object.keys(schemas)).toEqual(['thing', 'size']);
+    expect(schemas.thing.properties.size).toEqual({ $ref: 'https://schemas.example.com/size' });
+    expect(result.diagnostics).toEqual([]);
+  });
+
+  test('dereference mode follows $id and anchor references', async () => {
+    const result = await new ApiRefResolver(sourceFileName).resolve({ noMarkers: true, mode: 'dereference' });
+    const thing = (result.api as any).paths['/things'].get.responses['200'].content['application/json'].schema;
+    expect(thing.properties.size).toEqual({ $id: 'https://schemas.example.com/size', type: 'integer' });
+    expect(thing.properties.color).toEqual({ $anchor: 'color', type: 'string', enum: ['red', 'green'] });
+    expect(thing.properties.shade).toEqual(thing.properties.color);
+  });
+});
+
+describe('reproducible output', () => {
+  const sourceFileName = path.join(__dirname, 'data/schema-ids/api.yaml');
+
+  test('reproducible sorts components and omits x-resolved-at without SOURCE_DATE_EPOCH', async () => {
+    const epoch = process.env.SOURCE_DATE_EPOCH;
+    delete process.env.SOURCE_DATE_EPOCH;
+    try {
+      const unsorted = await new ApiRefResolver(sourceFileName).resolve();
+      expect(Object.keys((unsorted.api as any).components.schemas)).toEqual(['thing', 'label', 'size']);
+      const result = await new ApiRefResolver(sourceFileName).resolve({ reproducible: true });
+      expect(Object.keys((result.api as any).components.schemas)).toEqual(['label', 'size', 'thing']);
+      expect(result.api['x-resolved-from']).toEqual('api.yaml');
+      expect(result.api['x-resolved-at']).toBeUndefined();
+    } finally {
+      if (epoch !== undefined) {
+        process.env.SOURCE_DATE_EPOCH = epoch;
+      }
+    }
+  });
+
+  test('x-resolved-at is from resolvedAt or SOURCE_DATE_EPOCH', async () => {
+    const epoch = process.env.SOURCE_DATE_EPOCH;
+    process.env.SOURCE_DATE_EPOCH = '1647016079';
+    try {
+      const fromEpoch = await new ApiRefResolver(sourceFileName).resolve({ reproducible: true });
+      expect(fromEpoch.api['x-resolved-at']).toEqual('2022-03-11T16:27:59.000Z');
+      const fromOption = await new ApiRefResolver(sourceFileName).resolve({ resolvedAt: '2022-01-02T03:04:05Z' });
+      expect(fromOption.api['x-resolved-at']).toEqual('2022-01-02T03:04:05.000Z');
+    } finally {
+      if (epoch === undefined) {
+        delete process.env.SOURCE_DATE_EPOCH;
+      } else {
+        process.env.SOURCE_DATE_EPOCH = epoch;
+      }
+    }
+  });
+});
+
+describe('relative output URLs', () => {
+  test('$ref objects and markers are relative to the output and API document locations', async () => {
+    const sourceFileName = path.join(__dirname, 'data/diagnostics/api.yaml');
+    const outputPath = path.join(__dirname, 'data/resolved/api.yaml');
+    const resolver = new ApiRefResolver(sourceFileName);
+    const error = (await resolver.resolve({ outputPath }).catch((ex) => ex)) as ResolutionError;
+    const resolved = error.resolution.api as any;
+    expect(resolved['x-resolved-from']).toEqual('api.yaml');
+    expect(resolved.components.schemas.range['x-resolved-from']).toEqual('../schemas/percentageRange.yaml');
+    const responses = resolved.paths['/thing'].get.responses;
+    expect(responses['200'].content['application/json'].schema.$ref).toEqual(
+      '../diagnostics/missing.yaml#/components/schemas/thing',
+    );
+    expect(responses['400'].$ref).toEqual('../api-a/api.yaml#/components/responses/nope');
+    expect(JSON.stringify(resolved)).not.toContain('file:');
+  });
+});
+
+describe('markers', () => {
+  const sourceFileName = path.join(__dirname, 'data/readme-example/api.yaml');
+
+  test('markers can be renamed, chosen, and extended with provenance', async () => {
+    const sources: string[] = [];
+    const result = await new ApiRefResolver(sourceFileName).resolve({
+      resolvedAt: '2022-03-11T16:27:59Z',
+      sourceMap: true,
+      markers: {
+        resolvedFrom: 'x-source',
+        emit: ['resolvedFrom', 'provenance'],
+        provenance: (context) => {
+          sources.push(context.source);
+          return context.root ? { 'x-source-commit': '6e8d1f2' } : undefined;
+        },
+      },
+    });
+    const resolved = result.api as any;
+    expect(resolved['x-source']).toEqual('api.yaml');
+    expect(resolved['x-source-commit']).toEqual('6e8d1f2');
+    expect(resolved['x-resolved-from']).toBeUndefined();
+    expect(resolved['x-resolved-at']).toBeUndefined();
+    expect(resolved.components.schemas.health['x-source']).toEqual('components.yaml#/components/schemas/health');
+    expect(sources).toContain(
+      `${pathToFileURL(path.join(__dirname, 'data/readme-example/components.yaml')).href}#/components/schemas/health`,
+    );
+    expect(result.sourceMap['/x-source-commit']).toBeUndefined();
+  });
+
+  test('stripMarkers removes markers and other extensions, but not property names', () => {
+    const api = {
+      'x-resolved-from': 'api.yaml',
+      'x-resolved-at': '2022-03-11T16:27:59.365Z',
+      components: {
+        schemas: {
+          thing: {
+            'x-resolved-from': 'lib.yaml#/components/schemas/thing',
+            'x-internal': true,
+            properties: { 'x-internal': { type: 'string' } },
+          },
+        },
+      },
+    };
+    expect(stripMarkers(api, { extensions: ['x-internal'] })).toEqual([
+      '/x-resolved-from',
+      '/x-resolved-at',
+      '/components/schemas/thing/x-resolved-from',
+      '/components/schemas/thing/x-internal',
+    ]);
+    expect(api).toEqual({
+      components: { schemas: { thing: { properties: { 'x-internal': { type: 'string' } } } } },
+    });
+  });
+
+  test('an already resolved document is returned unchanged unless force is set', async () => {
+    const resolved = (await new ApiRefResolver(sourceFileName).resolve({ resolvedAt: '2022-03-11T16:27:59Z' }))
+      .api as any;
+    const again = await new ApiRefResolver(sourceFileName, ApiRefResolver.deepClone(resolved)).resolve();
+    expect(again.api).toEqual(resolved);
+    const forced = await new ApiRefResolver(sourceFileName, ApiRefResolver.deepClone(resolved)).resolve({
+      force: true,
+      resolvedAt: '2022-04-01T00:00:00Z',
+    });
+    const api = forced.api as any;
+    expect(api['x-resolved-at']).toEqual('2022-04-01T00:00:00.000Z');
+    expect(api.components.schemas.health['x-resolved-from']).toBeUndefined();
+  });
+
+  test('placement decides which elements get markers', async () => {
+    const result = await new ApiRefResolver(sourceFileName).resolve({
+      markers: { placement: (context) => context.root },
+    });
+    const resolved = result.api as any;
+    expect(resolved['x-resolved-from']).toEqual('api.yaml');
+    expect(resolved['x-resolved-at']).toBeDefined();
+    expect(resolved.components.schemas.health['x-resolved-from']).toBeUndefined();
+    expect(resolved.paths['/health'].get['x-resolved-from']).toBeUndefined();
+  });
+
+  test('taggable() uses the default placement', () => {
+    const resolver = new ApiRefResolver(sourceFileName);
+    const api = { paths: {}, components: { schemas: {}, responses: {} } };
+    const ref = { $ref: 'lib.yaml#/components/schemas/thing' };
+    expect(resolver.taggable(ref, new JsonNavigation(api, 'components', 'schemas', 'thing'))).toBe(true);
+    expect(resolver.taggable(ref, new JsonNavigation(api, 'components', 'responses', 'ok'))).toBe(false);
+    expect(resolver.taggable({ type: 'object' }, new JsonNavigation(api, 'components', 'responses', 'ok'))).toBe(true);
+  });
+});
+
+describe('YAML output', () => {
+  const sourceFileName = path.join(__dirname, 'data/formatting/api.yaml');
+
+  test('preserveFormatting keeps the comments and styles of the elements which were not replaced', async () => {
+    const result = await new ApiRefResolver(sourceFileName).resolve({
+      preserveFormatting: true,
+      resolvedAt: '2022-03-11T16:27:59Z',
+    });
+    const text = toYaml(result.api, { source: result.sourceText });
+    expect(text.startsWith('# The formatting test API\n')).toBe(true);
+    expect(text).toContain('  title: "Formatting" # double quoted\n');
+    expect(text).toContain("  version: '1.0.0'\n");
+    expect(text).toContain('  # local schemas stay as written\n');
+    expect(text).toContain('      enum: [ one, two ]\n');
+    expect(text).toContain("                $ref: '#/components/schemas/things'\n");
+    expect(yaml.load(text)).toEqual(result.api);
+  });
+
+  test('dumpOptions apply to new elements, and to all elements without the source text', async () => {
+    const result = await new ApiRefResolver(sourceFileName).resolve({ resolvedAt: '2022-03-11T16:27:59Z' });
+    expect(result.sourceText).toBeUndefined();
+    const dumpOptions = { quotingType: '"' as const, flowLevel: 4 };
+    const text = toYaml(result.api, { dumpOptions });
+    expect(text).toContain('      items: {$ref: "#/components/schemas/thing"}\n');
+    expect(text).not.toContain('# The formatting test API');
+    const source = fs.readFileSync(sourceFileName, 'utf8');
+    const preserved = toYaml(result.api, { dumpOptions, source });
+    expect(preserved).toContain('      items: { $ref: "#/components/schemas/thing" }\n');
+    expect(preserved).toContain("  version: '1.0.0'\n");
+    expect(yaml.load(preserved)).toEqual(result.api);
+  });
+
+  test('repeated new elements are aliases unless noRefs is set', () => {
+    const source = '# shared schemas\nopenapi: 3.0.3\n';
+    const shared = { type: 'object', description: 'Shared' };
+    const api = { openapi: '3.0.3', components: { schemas: { first: shared, second: shared } } };
+    const aliased = toYaml(api, { source });
+    expect(aliased).toContain('    first:\n      &a1\n');
+    expect(aliased).toContain('second: *a1\n');
+    expect(yaml.load(aliased)).toEqual(api);
+    const repeated = toYaml(api, { source, dumpOptions: { noRefs: true } });
+    expect(repeated).not.toContain('*a1');
+    expect(yaml.load(repeated)).toEqual(api);
+  });
+});
+
+describe('serialization', () => {
+  const sourceFileName = path.join(__dirname, 'data/formatting/api.yaml');
+
+  test('serialize() takes the format from the options or the output file extension', async () => {
+    const yamlResult = await new ApiRefResolver(sourceFileName).resolve();
+    expect(yaml.load(yamlResult.serialize())).toEqual(yamlResult.api);
+    expect(JSON.parse(yamlResult.serialize('json'))).toEqual(yamlResult.api);
+
+    const outputPath = path.join(__dirname, 'data/formatting/resolved.json');
+    const jsonResult = await new ApiRefResolver(sourceFileName).resolve({ outputPath });
+    expect(jsonResult.serialize()).toEqual(JSON.stringify(jsonResult.api, null, 2));
+    const compact = await new ApiRefResolver(sourceFileName).resolve({ outputPath, compactJson: true });
+    expect(compact.serialize()).toEqual(JSON.stringify(compact.api));
+    const forced = await new ApiRefResolver(sourceFileName).resolve({ outputPath, outputFormat: 'yaml' });
+    expect(forced.serialize().startsWith('{')).toBe(false);
+  });
+
+  test('outputFormatFor prefers the format, then the extension', () => {
+    expect(outputFormatFor(undefined, 'api.JSON')).toEqual('json');
+    expect(outputFormatFor(undefined, 'api.yml')).toEqual('yaml');
+    expect(outputFormatFor(undefined, undefined)).toEqual('yaml');
+    expect(outputFormatFor('yaml', 'api.json')).toEqual('yaml');
+    expect(() => outputFormatFor('xml')).toThrow('Unknown output format "xml"; use yaml or json');
+  });
+});
+
+describe('JSON input', () => {
+  test('reads JSON, JSONC and JSON5 documents by file extension', async () => {
+    const sourceFileName = path.join(__dirname, 'data/json-input/api.json');
+    const result = await new ApiRefResolver(sourceFileName).resolve({ sourceMap: true });
+    const resolved = result.api as any;
+    expect(resolved.components.responses.things.description).toEqual('The things');
+    expect(resolved.components.schemas.things.maxItems).toEqual(16);
+    expect(resolved.components.schemas.thing.description).toEqual('A thing');
+    expect(result.sourceMap['/components/responses/things/description']).toMatchObject({ line: 6, column: 9 });
+    expect(result.sourceMap['/paths/~1things/get']).toMatchObject({ line: 6, column: 7 });
+  });
+
+  test('reports JSON syntax errors with the line and column', async () => {
+    const sourceFileName = path.join(__dirname, 'data/json-input/broken.json');
+    const error = (await new ApiRefResolver(sourceFileName).resolve().catch((ex) => ex)) as ResolutionError;
+    expect(error).toBeInstanceOf(ResolutionError);
+    expect(error.diagnostics[0]).toMatchObject({
+      code: 'parse-error',
+      message: `Cannot parse ${pathToFileURL(sourceFileName).href}: invalid JSON: property name expected`,
+      line: 3,
+      column: 32,
+    });
+  });
+});
+
+describe('input text', () => {
+  test('fromText resolves a document which was not read from its URL', async () => {
+    const text = fs.readFileSync(path.join(__dirname, 'data/formatting/api.yaml'), 'utf8');
+    const documentUrl = pathToFileURL(path.join(__dirname, 'data/formatting/stdin'));
+    const result = await ApiRefResolver.fromText(text, documentUrl).resolve({
+      sourceMap: true,
+      preserveFormatting: true,
+    });
+    const resolved = result.api as any;
+    expect(resolved['x-resolved-from']).toEqual('stdin');
+    expect(resolved.components.schemas.thing.type).toEqual('object');
+    expect(result.sourceText).toEqual(text);
+    expect(result.sourceMap['/info/title']).toEqual({
+      source: documentUrl.href,
+      pointer: '/info/title',
+      line: 4,
+      column: 3,
+    });
+  });
+
+  test('fromText reports syntax errors as diagnostics', async () => {
+    const error = (await ApiRefResolver.fromText('{ "openapi": }', 'stdin.json')
+      .resolve()
+      .catch((ex) => ex)) as ResolutionError;
+    expect(error).toBeInstanceOf(ResolutionError);
+    expect(error.diagnostics[0]).toMatchObject({ code: 'parse-error', line: 1, column: 14 });
+  });
+});
+
+describe('batch', () => {
+  const roots = ['data/formatting/api.yaml', 'data/json-input/broken.json', 'data/json-input/api.json'].map((root) =>
+    path.join(__dirname, root),
+  );
+
+  test('resolveAll resolves each root with a shared cache, and reports failures', async () => {
+    const documentCache = new DocumentCache();
+    const outDir = path.join(__dirname, 'dist');
+    const seen: string[] = [];
+    const report = await resolveAll(
+      roots,
+      { documentCache, outputFormat: 'yaml' },
+      { outDir, concurrency: 2, onResult: (result) => void seen.push(result.root) },
+    );
+    expect(report.results.map((result) => result.root)).toEqual(roots.map((root) => pathToFileURL(root).href));
+    expect(seen.sort()).toEqual(report.results.map((result) => result.root).sort());
+    expect(report.results.map((result) => result.outputPath)).toEqual([
+      path.join(outDir, 'formatting/api.yaml'),
+      path.join(outDir, 'json-input/broken.yaml'),
+      path.join(outDir, 'json-input/api.yaml'),
+    ]);
+    expect(report.results[1].error).toContain('invalid JSON: property name expected');
+    expect(report.results[1].diagnostics[0].code).toEqual('parse-error');
+    expect(report.results[2].resolution.api['components'].schemas.thing.description).toEqual('A thing');
+    expect(report.documents).toHaveLength(5);
+    expect(documentCache.get(pathToFileURL(path.join(__dirname, 'data/json-input/schemas.json5')))).toBeDefined();
+    expect(formatBatchReport(report).split('\n').pop()).toMatch(
+      /^Resolved 2 of 3 API document\(s\); 1 failed, reading 5 distinct document\(s\), in \d+ms$/,
+    );
+  });
+
+  test('roots resolved at the same time read shared documents once', async () => {
+    const reads: string[] = [];
+    const root = path.join(__dirname, 'data/formatting/api.yaml');
+    const report = await resolveAll(
+      [root, root, root],
+      { loaders: { file: (url) => reads.push(url.href) && readFromFile(url) } },
+      { concurrency: NaN },
+    );
+    expect(report.results.map((result) => result.error)).toEqual([undefined, undefined, undefined]);
+    expect(report.documents).toHaveLength(2);
+    expect(reads).toHaveLength(2);
+  });
+
+  test('a root whose onResult callback throws fails without stopping the others', async () => {
+    const report = await resolveAll([roots[0], roots[2]], undefined, {
+      concurrency: 1,
+      onResult: (result) => {
+        if (result.root === pathToFileURL(roots[0]).href) {
+          throw new Error('Cannot write the output');
+        }
+      },
+    });
+    expect(report.results.map((result) => result.error)).toEqual(['Cannot write the output', undefined]);
+    expect(formatBatchReport(report).split('\n').pop()).toMatch(/^Resolved 1 of 2 API document\(s\); 1 failed/);
+  });
+
+  test('batchOutputPaths keeps the paths below the common directory', () => {
+    const urls = ['/apis/a/api.yaml', '/apis/b/v2/api.json'].map((file) => pathToFileURL(file));
+    expect(batchOutputPaths(urls, 'dist')).toEqual([
+      path.join('dist', 'a/api.yaml'),
+      path.join('dist', 'b/v2/api.json'),
+    ]);
+    expect(batchOutputPaths(urls, 'dist', 'json')).toEqual([
+      path.join('dist', 'a/api.json'),
+      path.join('dist', 'b/v2/api.json'),
+    ]);
+    expect(batchOutputPaths([urls[0]], 'dist')).toEqual([path.join('dist', 'api.yaml')]);
+  });
+});